@@ -1,148 +1,553 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Shield, ShieldAlert, Lock, Unlock, History, Camera, UserX, Loader2, CheckCircle2, Settings, Save, BellRing, X, ChevronRight, Mail } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Shield, ShieldAlert, Lock, Unlock, History, Camera, CameraOff, UserX, Loader2, CheckCircle2, Settings, Save, BellRing, X, Timer, Trash2, ScanFace, Clock, RotateCcw, Search, Fingerprint, Siren, User } from 'lucide-react';
 import Keypad from './components/Keypad';
-import { AppState, IntruderLog, SecurityStatus, AppSettings } from './types';
-import { analyzeIntruderImage } from './services/geminiService';
-
-// Local Storage Keys
-const PIN_STORAGE_KEY = 'vault_guard_pin';
-const LOGS_STORAGE_KEY = 'vault_guard_logs';
-const SETTINGS_STORAGE_KEY = 'vault_guard_settings';
+import DocumentVault from './components/DocumentVault';
+import PassphraseInput from './components/PassphraseInput';
+import PasscodeSettings from './components/PasscodeSettings';
+import RecoveryModal from './components/RecoveryModal';
+import RecoveryCodeNotice from './components/RecoveryCodeNotice';
+import AlertChannelSettings from './components/AlertChannelSettings';
+import DeliveryStatus from './components/DeliveryStatus';
+import LogMedia from './components/LogMedia';
+import LogMediaStrip from './components/LogMediaStrip';
+import SecurityDashboard from './components/SecurityDashboard';
+import SuspectsPanel from './components/SuspectsPanel';
+import ThreatAnalysisCard from './components/ThreatAnalysisCard';
+import IncidentList from './components/IncidentList';
+import AuditTimeline from './components/AuditTimeline';
+import EvidenceExportBar from './components/EvidenceExportBar';
+import BackupSettings from './components/BackupSettings';
+import AutoLockSettings from './components/AutoLockSettings';
+import PasskeySettings from './components/PasskeySettings';
+import DuressSettings from './components/DuressSettings';
+import ProfileSettings from './components/ProfileSettings';
+import RestoreBackupModal from './components/RestoreBackupModal';
+import AnalysisProviderSettings from './components/AnalysisProviderSettings';
+import CameraSettings from './components/CameraSettings';
+import CaptureModeSettings from './components/CaptureModeSettings';
+import RetentionSettings from './components/RetentionSettings';
+import { AppState, IntruderLog, SecurityStatus, AppSettings, PasscodeMode, PasscodePolicy, LockoutState, AlertChannelType, RetentionPolicy, StorageUsage, CaptureSettings, Suspect, SuspectStatus, ThreatAnalysis, SecurityAlert, AuditEventType, AuditDetails, AutoLockReason, UnlockMethod, Profile, CameraStatus, AnalysisSettings } from './types';
+import {
+  AnalysisJob,
+  enqueueAnalysis,
+  flushAnalysisQueue,
+  listAnalysisQueue,
+  removeAnalysisJob,
+  subscribeToAnalysisQueue,
+  waitForAnalysis,
+} from './services/analysisQueue';
+import { createVaultKey, createVaultStore, unlockVaultKey, wipeVault } from './services/vaultService';
+import {
+  loadLockoutState,
+  recordFailedAttempt,
+  resetLockout,
+  shouldWipe,
+  remainingLockout,
+  formatDuration,
+} from './services/lockoutService';
+import { enrollRecoveryCode } from './services/recoveryService';
+import { AlertChannel, buildDuressAlert, buildIntrusionAlert, createAlertChannel, getEnabledChannels } from './services/alertService';
+import { requestPersistentStorage, subscribeToReconnect } from './services/offlineService';
+import { enqueueAlert, flushOutbox, mergeDelivery, pendingDelivery, sealPlaintextOutbox, subscribeToDeliveries } from './services/alertOutbox';
+import {
+  addLog,
+  deleteLogs,
+  getLogMediaDataUrl,
+  getStorageUsage,
+  listLogMedia,
+  listLogs,
+  migrateLegacyLogs,
+  pruneLogs,
+  sealPlaintextLogs,
+  updateLogDelivery,
+} from './services/logRepository';
+import { unlockLogKey } from './services/logKeyService';
+import { blobToDataUrl, formatBytes } from './services/mediaUtils';
+import { CaptureResult, captureIntrusion } from './services/captureService';
+import { failureStatus, openCamera, reconnectDelay, stopStream, watchStream } from './services/cameraService';
+import { assignSuspect, confirmSuspectMatch, listSuspects, renameSuspect, setSuspectStatus, suspectLabel } from './services/suspectService';
+import { groupIncidents } from './services/incidentService';
+import { recordAuditEvent } from './services/auditLog';
+import { watchAutoLock } from './services/autoLockService';
+import { PasskeyInfo, getPasskeyInfo, unlockWithPasskey } from './services/passkeyService';
+import { DEFAULT_PROFILE_ID, getActiveProfile, listProfiles, profileName, profileStorageKey, setActiveProfile } from './services/profileService';
+import { createDecoyVaultStore, duressFitsPolicy, hasDuressPasscode, removeDuressPasscode, verifyDuressPasscode } from './services/duressService';
+import { describeLogQuery, isEmptyQuery, matchesLogQuery, parseLogQuery } from './services/logSearch';
+import {
+  hasPasscode,
+  setPasscode,
+  verifyPasscode,
+  loadPasscodePolicy,
+  savePasscodePolicy,
+  policyForPasscode,
+  validatePasscode,
+  DEFAULT_PASSCODE_POLICY,
+  MIN_PIN_LENGTH,
+  MAX_PIN_LENGTH,
+  MIN_PASSPHRASE_LENGTH,
+} from './services/credentialService';
 
 const DEFAULT_SETTINGS: AppSettings = {
   alertEmail: '',
   triggerThreshold: 1,
-  enableCapture: true
+  enableCapture: true,
+  capture: {
+    mode: 'burst',
+    burstFrames: 5,
+    burstDurationMs: 2000,
+    clipSeconds: 4,
+    requireFace: false,
+    deviceId: '',
+    resolution: 'low',
+    jpegQuality: 0.7
+  },
+  lockoutThreshold: 5,
+  lockoutDurations: [30, 60, 300, 3600],
+  wipeAfterFailures: 0,
+  alertChannels: {
+    webhook: { enabled: false, url: '' },
+    smtp: { enabled: false, endpoint: '', apiKey: '', from: '' },
+    notification: { enabled: false }
+  },
+  retention: {
+    maxCount: 200,
+    maxAgeDays: 90,
+    maxBytes: 50 * 1024 * 1024
+  },
+  analysis: {
+    provider: 'gemini',
+    model: '',
+    prompt: '',
+    endpoint: 'http://localhost:11434/v1',
+    apiKey: '',
+    autoAnalyze: false,
+    alertWaitsForAnalysis: false
+  },
+  autoLock: {
+    idleMinutes: 5,
+    warningSeconds: 30,
+    onHidden: true,
+    onBlur: false,
+    onSleep: true
+  }
+};
+
+const OUTBOX_FLUSH_INTERVAL_MS = 30 * 1000;
+const ANALYSIS_FLUSH_INTERVAL_MS = 15 * 1000;
+// How long an alert is held back waiting for automatic analysis
+const ALERT_ANALYSIS_TIMEOUT_MS = 20 * 1000;
+// The camera stops as soon as the decoy opens, so a duress unlock takes one quick still
+const DURESS_CAPTURE: Partial<CaptureSettings> = { mode: 'single', burstFrames: 1, burstDurationMs: 0, clipSeconds: 0, requireFace: false };
+
+// Every profile has its own settings, stored under its own key
+const settingsStorageKey = (profileId?: string) => profileStorageKey('settings', profileId);
+
+const loadSettings = (profileId?: string): AppSettings => {
+  const savedSettings = localStorage.getItem(settingsStorageKey(profileId));
+  if (!savedSettings) return DEFAULT_SETTINGS;
+  try {
+    const parsed: Partial<AppSettings> = JSON.parse(savedSettings);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      capture: { ...DEFAULT_SETTINGS.capture, ...parsed.capture },
+      alertChannels: { ...DEFAULT_SETTINGS.alertChannels, ...parsed.alertChannels },
+      retention: { ...DEFAULT_SETTINGS.retention, ...parsed.retention },
+      analysis: { ...DEFAULT_SETTINGS.analysis, ...parsed.analysis },
+      autoLock: { ...DEFAULT_SETTINGS.autoLock, ...parsed.autoLock },
+    };
+  } catch (e) {
+    console.error("Failed to parse settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+const analysisSettingsFor = (profileId: string): AnalysisSettings => loadSettings(profileId).analysis;
+
+// What the decoy's settings show: defaults everywhere, so no channel, key or policy
+// leaks, except auto-lock, which keeps behaving as the real vault does
+const decoySettings = (real: AppSettings): AppSettings => ({ ...DEFAULT_SETTINGS, autoLock: real.autoLock });
+
+// Every event carries the id of the profile it concerns; once there is more than one
+// profile it also names it, for the timeline
+const audit = (type: AuditEventType, details?: AuditDetails) => {
+  const active = getActiveProfile();
+  const scoped = listProfiles().length > 1
+    ? { profile: active.name, profileId: active.id, ...details }
+    : { profileId: active.id, ...details };
+  recordAuditEvent(type, scoped).catch(e => console.error("Failed to record audit event", e));
 };
 
 const App: React.FC = () => {
   // --- State ---
   const [appState, setAppState] = useState<AppState>(AppState.SETUP);
   const [inputPin, setInputPin] = useState<string>('');
-  const [storedPin, setStoredPin] = useState<string | null>(null);
   const [logs, setLogs] = useState<IntruderLog[]>([]);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [logKey, setLogKey] = useState<CryptoKey | null>(null);
+  const [passcodePolicy, setPasscodePolicy] = useState<PasscodePolicy>(DEFAULT_PASSCODE_POLICY);
   
   const [securityStatus, setSecurityStatus] = useState<SecurityStatus>(SecurityStatus.IDLE);
-  const [cameraActive, setCameraActive] = useState<boolean>(false);
-  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('off');
+  const [analysisJobs, setAnalysisJobs] = useState<Record<string, AnalysisJob>>({});
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [suspects, setSuspects] = useState<Suspect[]>([]);
+  const [suspectFilter, setSuspectFilter] = useState<string | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const [galleryView, setGalleryView] = useState<'attempts' | 'incidents'>('attempts');
+  const [selectedLogIds, setSelectedLogIds] = useState<string[]>([]);
   
+  const [lockout, setLockout] = useState<LockoutState>(loadLockoutState);
+  const [now, setNow] = useState(() => Date.now());
+
   // Transient State
-  const [sessionFailedAttempts, setSessionFailedAttempts] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  const [setupMode, setSetupMode] = useState<PasscodeMode>('pin');
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [showRecovery, setShowRecovery] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
+  const [autoLockCountdown, setAutoLockCountdown] = useState<number | null>(null);
+  const [passkeyInfo, setPasskeyInfo] = useState<PasskeyInfo | null>(getPasskeyInfo);
+  // Both-factor policy: the passcode was right and the passkey is still to come.
+  // It is kept until then, since the vault key needs both to unwrap.
+  const [acceptedPasscode, setAcceptedPasscode] = useState<string | null>(null);
+  // The credentials were right but the vault key did not open, so the vault stays locked
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  // Unlocked, but the intruder logs could not be opened
+  const [logsError, setLogsError] = useState<string | null>(null);
+  const [duressEnabled, setDuressEnabled] = useState(hasDuressPasscode);
+  // Opened with the duress passcode: everything real stays hidden and nothing is saved
+  const [decoy, setDecoy] = useState(false);
+  const [profile, setProfile] = useState<Profile>(getActiveProfile);
+  const [profiles, setProfiles] = useState<Profile[]>(listProfiles);
+  const [recoveryNotice, setRecoveryNotice] = useState<{ code: string; message: string } | null>(null);
   
   // --- Refs ---
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const settingsOnOpenRef = useRef<AppSettings>(DEFAULT_SETTINGS);
+  const realSettingsRef = useRef<AppSettings>(DEFAULT_SETTINGS);
 
   // --- Initialization ---
   useEffect(() => {
-    const savedPin = localStorage.getItem(PIN_STORAGE_KEY);
-    const savedLogs = localStorage.getItem(LOGS_STORAGE_KEY);
-    const savedSettings = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    const loadedSettings = loadSettings();
+    setSettings(loadedSettings);
 
-    if (savedLogs) {
-      try {
-        setLogs(JSON.parse(savedLogs));
-      } catch (e) {
-        console.error("Failed to parse logs", e);
-      }
-    }
+    // Logs stay sealed until unlock; only housekeeping on the plaintext envelopes happens here
+    migrateLegacyLogs()
+      .then(() => pruneLogs(loadedSettings.retention))
+      .then(removed => {
+        if (removed.length > 0) audit('logs_deleted', { count: removed.length, reason: 'retention' });
+      })
+      .catch(e => console.error("Failed to prepare logs", e));
 
-    if (savedSettings) {
-      try {
-        setSettings(JSON.parse(savedSettings));
-      } catch (e) {
-        console.error("Failed to parse settings", e);
-      }
-    }
+    setPasscodePolicy(loadPasscodePolicy());
 
-    if (savedPin) {
-      setStoredPin(savedPin);
+    if (hasPasscode()) {
       setAppState(AppState.LOCKED);
     } else {
       setAppState(AppState.SETUP);
     }
   }, []);
 
+  // Drop keys and decrypted logs as soon as the vault is no longer open
+  useEffect(() => {
+    if (appState !== AppState.UNLOCKED) return;
+    return () => {
+      setVaultKey(null);
+      setLogKey(null);
+      setLogs([]);
+      setSuspects([]);
+      setSuspectFilter(null);
+      setSelectedLogIds([]);
+      setLogsError(null);
+      // Whatever was changed in the decoy's settings is thrown away
+      if (decoy) {
+        setSettings(realSettingsRef.current);
+        setProfiles(listProfiles());
+        setDuressEnabled(hasDuressPasscode());
+      }
+      setDecoy(false);
+    };
+  }, [appState, decoy]);
+
   // Save settings on change
   useEffect(() => {
-    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
-  }, [settings]);
+    if (decoy) return;
+    localStorage.setItem(settingsStorageKey(), JSON.stringify(settings));
+  }, [settings, decoy]);
 
-  // --- Camera Logic ---
-  const startCamera = useCallback(async () => {
-    try {
-      if (streamRef.current) return; // Already running
+  // Tick once a second while a lockout cooldown is running
+  const lockoutRemaining = remainingLockout(lockout, now);
+  useEffect(() => {
+    const lockedUntil = lockout.lockedUntil;
+    if (!lockedUntil || lockedUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockout.lockedUntil]);
 
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'user', width: { ideal: 640 }, height: { ideal: 480 } }, 
-        audio: false 
-      });
-      
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setCameraActive(true);
-      }
-    } catch (err) {
-      console.error("Camera permission denied or error:", err);
-      setCameraActive(false);
-    }
+  // --- Log Storage ---
+  const loadLogs = useCallback(async (dataKey: CryptoKey) => {
+    const key = await unlockLogKey(dataKey);
+    await sealPlaintextLogs();
+    await sealPlaintextOutbox();
+    setLogKey(key);
+    // Members only see attempts on their own profile (and the suspects in them). Their copy
+    // of the log key opens every log, so this filter is the only thing keeping them apart
+    const active = getActiveProfile();
+    const all = await listLogs(key);
+    const visible = active.role === 'admin' ? all : all.filter(log => (log.profileId ?? DEFAULT_PROFILE_ID) === active.id);
+    setLogs(visible);
+    const suspectList = await listSuspects(key);
+    setSuspects(active.role === 'admin' ? suspectList : suspectList.filter(s => visible.some(log => log.suspectId === s.id)));
   }, []);
 
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-      setCameraActive(false);
+  const enforceRetention = useCallback(async (retention: RetentionPolicy) => {
+    const removed = await pruneLogs(retention);
+    if (removed.length > 0) {
+      audit('logs_deleted', { count: removed.length, reason: 'retention' });
+      setLogs(prev => prev.filter(l => !removed.includes(l.id)));
+      await Promise.all(removed.map(removeAnalysisJob));
     }
   }, []);
 
-  // Start camera when entering LOCKED state
+  // Refresh the storage readout while the vault is open
   useEffect(() => {
-    if (appState === AppState.LOCKED) {
-      startCamera();
-    } else {
-      stopCamera();
-    }
-    return () => stopCamera(); // Cleanup
-  }, [appState, startCamera, stopCamera]);
+    if (appState !== AppState.UNLOCKED) return;
+    // The decoy counts only its own (empty) logs, never what the real vault takes up
+    getStorageUsage(logs)
+      .then(usage => setStorageUsage(decoy ? { ...usage, usage: usage.logBytes } : usage))
+      .catch(e => console.error("Failed to estimate storage", e));
+  }, [appState, logs, decoy]);
 
-  const captureIntruder = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current || !cameraActive) return null;
+  // Evicted storage would take the intruder logs with it
+  const keepStorage = useCallback(async () => {
+    const persisted = await requestPersistentStorage();
+    setStorageUsage(prev => prev && { ...prev, persisted });
+  }, []);
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
+  // Reflect outbox progress on the log each alert belongs to
+  useEffect(() => subscribeToDeliveries((logId, delivery) => {
+    setLogs(prev => prev.map(l => (l.id === logId ? { ...l, delivery: mergeDelivery(l.delivery, delivery) } : l)));
+    updateLogDelivery(logId, delivery).catch(e => console.error("Failed to record alert delivery", e));
+  }), []);
 
-    if (context) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      return canvas.toDataURL('image/jpeg', 0.7);
-    }
-    return null;
-  }, [cameraActive]);
+  // Mirror the analysis queue, and put finished analyses on their logs
+  useEffect(() => {
+    listAnalysisQueue()
+      .then(jobs => setAnalysisJobs(Object.fromEntries(jobs.map(job => [job.id, job]))))
+      .catch(e => console.error("Failed to load analysis queue", e));
+
+    return subscribeToAnalysisQueue(({ logId, job, analysis }) => {
+      setAnalysisJobs(prev => {
+        const { [logId]: _previous, ...rest } = prev;
+        return job ? { ...rest, [logId]: job } : rest;
+      });
+      if (analysis) {
+        setLogs(prev => prev.map(l => (l.id === logId ? { ...l, aiAnalysis: analysis } : l)));
+      }
+    });
+  }, []);
+
+  // Work through the analysis queue; jobs captured before a reload need the log key.
+  // Each job runs with its own profile's saved settings, whichever profile is active.
+  useEffect(() => {
+    const flush = () => flushAnalysisQueue(analysisSettingsFor, logKey);
+    flush();
+    const timer = setInterval(flush, ANALYSIS_FLUSH_INTERVAL_MS);
+    const unsubscribe = subscribeToReconnect(flush);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [logKey]);
+
+  // Retry queued alerts periodically and as soon as the browser comes back online (or background sync fires)
+  useEffect(() => {
+    const flush = () => flushOutbox(loadSettings, logKey);
+    flush();
+    const timer = setInterval(flush, OUTBOX_FLUSH_INTERVAL_MS);
+    const unsubscribe = subscribeToReconnect(flush);
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+    };
+  }, [logKey]);
+
+  // --- Camera Logic ---
+  // Keep the camera running while LOCKED, and reconnect if it drops out (unplugged, taken by another app)
+  useEffect(() => {
+    if (appState !== AppState.LOCKED) return;
+    const capture = settings.capture;
+    let cancelled = false;
+    let attempt = 0; // Reconnect attempts since the camera was last working
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let unwatch = () => {};
+
+    const release = () => {
+      unwatch();
+      if (streamRef.current) stopStream(streamRef.current);
+      streamRef.current = null;
+      if (videoRef.current) videoRef.current.srcObject = null;
+    };
+
+    const retry = () => {
+      retryTimer = setTimeout(connect, reconnectDelay(attempt++));
+    };
+
+    const connect = async () => {
+      try {
+        const stream = await openCamera(capture);
+        if (cancelled) return stopStream(stream);
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+        unwatch = watchStream(stream, reason => {
+          audit('camera_lost', { reason });
+          release();
+          setCameraStatus('reconnecting');
+          retry();
+        });
+        if (attempt > 0) audit('camera_restored', { attempts: attempt });
+        attempt = 0;
+        setCameraStatus('active');
+      } catch (err) {
+        if (cancelled) return;
+        const status = failureStatus(err);
+        if (attempt === 0) {
+          console.error("Camera permission denied or error:", err);
+          audit('camera_denied', { error: err instanceof Error ? `${err.name}: ${err.message}` : String(err) });
+        }
+        // A camera that worked and dropped out keeps reporting 'reconnecting' until it is back
+        setCameraStatus(prev => (status === 'unavailable' && prev === 'reconnecting' ? prev : status));
+        // A blocked camera stays blocked until the user changes the site settings
+        if (status === 'unavailable') retry();
+      }
+    };
+
+    setCameraStatus('starting');
+    connect();
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+      release();
+      setCameraStatus('off');
+    };
+  }, [appState, settings.capture.deviceId, settings.capture.resolution]);
+
+  const captureIntruder = useCallback(async (capture: CaptureSettings): Promise<CaptureResult> => {
+    if (!videoRef.current || cameraStatus !== 'active') return { media: [] };
+    return captureIntrusion(videoRef.current, streamRef.current, capture);
+  }, [cameraStatus]);
 
   // --- Alerting System ---
-  const sendSecurityAlert = (imageData: string, attemptCount: number) => {
-    if (!settings.alertEmail) return;
+  const sendSecurityAlert = useCallback(async (alert: SecurityAlert, channels: AlertChannel[]) => {
+    if (channels.length === 0) return;
 
-    // Simulation of sending an email
-    console.log(`[ALERT SYSTEM] Sending email to ${settings.alertEmail}`);
-    console.log(`[ALERT SYSTEM] Subject: Intruder Alert! ${attemptCount} failed attempts detected.`);
-    console.log(`[ALERT SYSTEM] Attachment: [Base64 Image Data]`);
-    
-    setAlertMessage(`Alert sent to ${settings.alertEmail}`);
+    // Queue first so the alert survives a reload or lost connection, then try to send right away
+    await enqueueAlert(alert, channels.map(c => c.type), profile.id);
+    flushOutbox(loadSettings, logKey);
+    // Whoever is forcing the unlock is looking at this screen
+    if (alert.duress) return;
+
+    setAlertMessage(`Alert sent via ${channels.map(c => c.label).join(', ')}`);
     setTimeout(() => setAlertMessage(null), 3000);
-  };
+  }, [profile.id, logKey]);
+
+  const recordIntrusion = useCallback(async (attemptNumber: number) => {
+    const timestamp = Date.now();
+    const { media, face, faceHash } = await captureIntruder(settings.capture);
+    const primary = media.find(c => c.primary);
+    if (!primary || (settings.capture.requireFace && !face)) return;
+
+    // Matching only needs the plaintext hashes, so known people are recognised while LOCKED
+    const suspect = faceHash
+      ? await assignSuspect(faceHash).catch(err => {
+          console.error("Failed to match suspect", err);
+          return null;
+        })
+      : null;
+    // Known people still alert, at low priority, in case the match is wrong
+    const known = suspect?.status === 'known';
+    const channels = getEnabledChannels(settings);
+    // Sealed with the log public key; it shows up in the gallery after the next unlock
+    const newLog = await addLog({
+      id: timestamp.toString(),
+      timestamp,
+      attemptNumber,
+      face,
+      faceHash,
+      suspectId: suspect?.id,
+      profileId: profile.id,
+      delivery: channels.map(c => pendingDelivery(c.type)),
+    }, media);
+    enforceRetention(settings.retention).catch(e => console.error("Failed to prune logs", e));
+
+    const imageData = await blobToDataUrl(primary.blob);
+    let analysis: ThreatAnalysis | null = null;
+    if (settings.analysis.autoAnalyze) {
+      // The face crop is all the model needs and costs far fewer tokens than the full frame
+      const faceCrop = media.find(c => c.faceCrop);
+      const analyzed = channels.length > 0 && settings.analysis.alertWaitsForAnalysis
+        ? waitForAnalysis(newLog.id, ALERT_ANALYSIS_TIMEOUT_MS)
+        : null;
+      await enqueueAnalysis(newLog.id, newLog.faceCropId ?? newLog.imageId, profile.id, faceCrop ? await blobToDataUrl(faceCrop.blob) : imageData);
+      flushAnalysisQueue(analysisSettingsFor, logKey);
+      if (analyzed) analysis = await analyzed;
+    }
+
+    // Trigger Alert
+    sendSecurityAlert(buildIntrusionAlert(newLog.attemptNumber, imageData, newLog.id, analysis ?? undefined, known), channels).catch(err =>
+      console.error("Failed to queue security alert", err)
+    );
+  }, [captureIntruder, settings, profile.id, logKey, enforceRetention, sendSecurityAlert]);
+
+  // Always alerts, known suspect or not, but never through a notification on this device
+  const recordDuress = useCallback(async ({ media, face, faceHash }: CaptureResult, attemptNumber: number) => {
+    const timestamp = Date.now();
+    const channels = getEnabledChannels(settings).filter(c => c.type !== 'notification');
+    const primary = media.find(c => c.primary);
+    if (!primary) {
+      await sendSecurityAlert(buildDuressAlert(), channels);
+      return;
+    }
+
+    const suspect = faceHash
+      ? await assignSuspect(faceHash).catch(err => {
+          console.error("Failed to match suspect", err);
+          return null;
+        })
+      : null;
+    const newLog = await addLog({
+      id: timestamp.toString(),
+      timestamp,
+      attemptNumber,
+      face,
+      faceHash,
+      suspectId: suspect?.id,
+      profileId: profile.id,
+      duress: true,
+      delivery: channels.map(c => pendingDelivery(c.type)),
+    }, media);
+    enforceRetention(settings.retention).catch(e => console.error("Failed to prune logs", e));
+    await sendSecurityAlert(buildDuressAlert(await blobToDataUrl(primary.blob), newLog.id), channels);
+  }, [settings, profile.id, enforceRetention, sendSecurityAlert]);
 
   // --- Keypad Logic ---
+  const activeMode: PasscodeMode = appState === AppState.SETUP ? setupMode : passcodePolicy.mode;
+  const maxPinLength = appState === AppState.SETUP ? MAX_PIN_LENGTH : passcodePolicy.length;
+  // Anything shorter cannot be the passcode, so it is not submitted (or counted as a failed attempt)
+  const minEntryLength = activeMode === 'pin'
+    ? (appState === AppState.SETUP ? MIN_PIN_LENGTH : passcodePolicy.length)
+    : (appState === AppState.SETUP ? 1 : MIN_PASSPHRASE_LENGTH);
+
   const handleKeyPress = (key: string) => {
-    if (inputPin.length < 4) {
+    if (inputPin.length < maxPinLength) {
       setInputPin(prev => prev + key);
     }
   };
@@ -152,109 +557,487 @@ const App: React.FC = () => {
   };
 
   // --- Security Core ---
-  const handlePinSubmit = async () => {
+  const grantAccess = useCallback(async (loadDataKey: () => Promise<CryptoKey>, method: UnlockMethod) => {
+    setAcceptedPasscode(null);
+    let dataKey: CryptoKey;
+    try {
+      dataKey = await loadDataKey();
+    } catch (err) {
+      // Opening on an empty vault would look like the documents were gone
+      console.error("Failed to unlock document vault", err);
+      setUnlockError('The vault key could not be opened. Use "Forgot passcode?" with your recovery code.');
+      setInputPin('');
+      setSecurityStatus(SecurityStatus.IDLE);
+      return;
+    }
+    setUnlockError(null);
+    setSecurityStatus(SecurityStatus.GRANTED);
+    setLockout(resetLockout()); // Reset attempts on success
+    setVaultKey(dataKey);
+    try {
+      await loadLogs(dataKey);
+    } catch (err) {
+      console.error("Failed to load intruder logs", err);
+      setLogsError(err instanceof Error ? err.message : 'The intruder logs could not be opened.');
+    }
+    // After loadLogs, so a first unlock already has the key pair to seal with
+    audit('unlock', { method, afterFailures: lockout.failedAttempts });
+    keepStorage();
+    setTimeout(() => {
+        setAppState(AppState.UNLOCKED);
+        setInputPin('');
+        setSecurityStatus(SecurityStatus.IDLE);
+    }, 500);
+  }, [loadLogs, lockout.failedAttempts, keepStorage]);
+
+  /**
+   * Looks and feels exactly like grantAccess, but nothing is decrypted: the view
+   * opens on an empty gallery and a decoy document vault. The audit entry is an
+   * ordinary unlock whose sealed details carry the duress flag.
+   */
+  const grantDecoyAccess = useCallback(async () => {
+    setSecurityStatus(SecurityStatus.GRANTED);
+    setLockout(resetLockout());
+    setAcceptedPasscode(null);
+    audit('unlock', { method: 'passcode', duress: true, afterFailures: lockout.failedAttempts });
+
+    const captured = await captureIntruder({ ...settings.capture, ...DURESS_CAPTURE }).catch(err => {
+      console.error("Failed to capture duress photo", err);
+      return { media: [] };
+    });
+    recordDuress(captured, lockout.failedAttempts).catch(err =>
+      console.error("Failed to raise duress alert", err)
+    );
+
+    realSettingsRef.current = settings;
+    setSettings(decoySettings(settings));
+    setProfiles([profile]);
+    setDuressEnabled(false);
+    setDecoy(true);
+    setTimeout(() => {
+        setAppState(AppState.UNLOCKED);
+        setInputPin('');
+        setSecurityStatus(SecurityStatus.IDLE);
+    }, 500);
+  }, [lockout.failedAttempts, captureIntruder, settings, profile, recordDuress]);
+
+  // Wrong passcodes and failed passkey checks share the lockout, wipe and capture path
+  const registerFailedAttempt = useCallback(async (method: UnlockMethod) => {
+    setSecurityStatus(SecurityStatus.BREACH_DETECTED);
+    setAcceptedPasscode(null);
+    const nextLockout = recordFailedAttempt(settings);
+    const currentAttempts = nextLockout.failedAttempts;
+    setLockout(nextLockout);
+    setNow(Date.now());
+    audit('unlock_failed', {
+      method,
+      attempt: currentAttempts,
+      ...(nextLockout.lockedUntil ? { lockedForMs: remainingLockout(nextLockout) } : {}),
+    });
+
+    if (shouldWipe(nextLockout, settings)) {
+      try {
+        await wipeVault();
+        audit('vault_wiped', { reason: `${currentAttempts} failed attempts` });
+      } catch (err) {
+        console.error("Failed to wipe vault", err);
+      }
+    }
+
+    // Check Logic based on Settings
+    if (settings.enableCapture && currentAttempts >= settings.triggerThreshold) {
+        // Bursts and clips take a few seconds, so the keypad is not held up waiting for them
+        recordIntrusion(currentAttempts).catch(err =>
+            console.error("Failed to store intruder log", err)
+        );
+    }
+
+    setTimeout(() => {
+      setInputPin('');
+      setSecurityStatus(SecurityStatus.IDLE);
+    }, 1000);
+  }, [settings, recordIntrusion]);
+
+  const handlePinSubmit = useCallback(async () => {
+    if (inputPin.length < minEntryLength) return;
     setSecurityStatus(SecurityStatus.CHECKING);
     
     // Artificial delay for realism
     await new Promise(resolve => setTimeout(resolve, 600));
 
     if (appState === AppState.SETUP) {
-      if (inputPin.length === 4) {
-        localStorage.setItem(PIN_STORAGE_KEY, inputPin);
-        setStoredPin(inputPin);
+      const error = validatePasscode(inputPin, setupMode);
+      if (!error) {
+        const policy = policyForPasscode(inputPin, setupMode);
+        const dataKey = await createVaultKey(inputPin);
+        await setPasscode(inputPin);
+        savePasscodePolicy(policy);
+        setPasscodePolicy(policy);
+        setRecoveryNotice({
+          code: await enrollRecoveryCode(dataKey),
+          message: 'Passcode set successfully! System is now armed.',
+        });
+        audit('setup', { mode: setupMode });
+        setSetupError(null);
         setAppState(AppState.LOCKED);
         setInputPin('');
         setSecurityStatus(SecurityStatus.IDLE);
-        alert("Passcode set successfully! System is now armed.");
       } else {
+        setSetupError(error);
         setSecurityStatus(SecurityStatus.IDLE);
       }
       return;
     }
 
     if (appState === AppState.LOCKED) {
-      if (inputPin === storedPin) {
-        // SUCCESS
-        setSecurityStatus(SecurityStatus.GRANTED);
-        setSessionFailedAttempts(0); // Reset attempts on success
-        setTimeout(() => {
-            setAppState(AppState.UNLOCKED);
-            setInputPin('');
-            setSecurityStatus(SecurityStatus.IDLE);
-        }, 500);
-      } else {
-        // FAILED ATTEMPT
-        setSecurityStatus(SecurityStatus.BREACH_DETECTED);
-        const currentAttempts = sessionFailedAttempts + 1;
-        setSessionFailedAttempts(currentAttempts);
-
-        // Check Logic based on Settings
-        if (settings.enableCapture && currentAttempts >= settings.triggerThreshold) {
-            const imageData = captureIntruder();
-            
-            if (imageData) {
-                const newLog: IntruderLog = {
-                    id: Date.now().toString(),
-                    timestamp: Date.now(),
-                    imageData,
-                    attemptNumber: currentAttempts,
-                };
-                
-                const updatedLogs = [newLog, ...logs];
-                setLogs(updatedLogs);
-                localStorage.setItem(LOGS_STORAGE_KEY, JSON.stringify(updatedLogs));
-                
-                // Trigger Alert
-                sendSecurityAlert(imageData, currentAttempts);
-            }
-        }
+      // Re-read the persisted state so a second tab cannot bypass the cooldown
+      if (remainingLockout(loadLockoutState()) > 0) {
+        setLockout(loadLockoutState());
+        setNow(Date.now());
+        setInputPin('');
+        setSecurityStatus(SecurityStatus.IDLE);
+        return;
+      }
 
-        setTimeout(() => {
+      if (await verifyPasscode(inputPin)) {
+        if (passkeyInfo?.requirePasscode) {
+          // Nothing is decrypted until the passkey confirms as well
+          setAcceptedPasscode(inputPin);
           setInputPin('');
           setSecurityStatus(SecurityStatus.IDLE);
-        }, 1000);
+          return;
+        }
+        const passcode = inputPin;
+        await grantAccess(() => unlockVaultKey(passcode), 'passcode');
+      } else if (duressEnabled && duressFitsPolicy(passcodePolicy) && await verifyDuressPasscode(inputPin)) {
+        await grantDecoyAccess();
+      } else {
+        await registerFailedAttempt('passcode');
       }
     }
+  }, [inputPin, minEntryLength, appState, setupMode, passcodePolicy, passkeyInfo, duressEnabled, grantAccess, grantDecoyAccess, registerFailedAttempt]);
+
+  const handlePasskeyUnlock = async () => {
+    if (remainingLockout(loadLockoutState()) > 0) {
+      setLockout(loadLockoutState());
+      setNow(Date.now());
+      return;
+    }
+    const passcode = acceptedPasscode ?? undefined;
+    if (passkeyInfo?.requirePasscode && passcode === undefined) return;
+
+    setSecurityStatus(SecurityStatus.CHECKING);
+    let dataKey: CryptoKey;
+    try {
+      dataKey = await unlockWithPasskey(passcode);
+    } catch (err) {
+      console.error("Passkey unlock failed", err);
+      await registerFailedAttempt('passkey');
+      return;
+    }
+    await grantAccess(async () => dataKey, passcode !== undefined ? 'passcode+passkey' : 'passkey');
   };
 
-  // Auto-submit when 4 digits entered
+  // Auto-submit once a PIN reaches its known length (the length is still being chosen during SETUP).
+  // Only while idle: a submission in progress changes handlePinSubmit but must not start another.
   useEffect(() => {
-    if (inputPin.length === 4) {
+    if (appState === AppState.LOCKED && securityStatus === SecurityStatus.IDLE
+      && passcodePolicy.mode === 'pin' && inputPin.length === passcodePolicy.length) {
       handlePinSubmit();
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [inputPin]);
+  }, [appState, securityStatus, passcodePolicy, inputPin, handlePinSubmit]);
 
-  // --- Gemini Analysis ---
+  // --- Passcode Recovery ---
+  const handleRecoveryFailure = () => {
+    const nextLockout = recordFailedAttempt(settings);
+    setLockout(nextLockout);
+    setNow(Date.now());
+    audit('recovery_failed', { attempt: nextLockout.failedAttempts });
+  };
+
+  const handleRecovered = (policy: PasscodePolicy, recoveryCode: string) => {
+    setPasscodePolicy(policy);
+    syncDuressWithPolicy(policy);
+    setLockout(resetLockout());
+    setInputPin('');
+    setShowRecovery(false);
+    setUnlockError(null);
+    audit('passcode_recovered', { mode: policy.mode });
+    // A passkey that needed the old passcode was removed with it, so the new passcode alone unlocks
+    if (passkeyInfo?.requirePasscode) {
+      setPasskeyInfo(getPasskeyInfo());
+      audit('passkey_removed', { reason: 'passcode recovered' });
+    }
+    setRecoveryNotice({
+      code: recoveryCode,
+      message: 'Passcode reset. Your previous recovery code has been used up; this is your new one.',
+    });
+  };
+
+  // --- Passkey ---
+  const handlePasskeyChange = (next: PasskeyInfo | null) => {
+    if (decoy) return;
+    if (!passkeyInfo && next) audit('passkey_enrolled');
+    else if (passkeyInfo && !next) audit('passkey_removed');
+    else if (next) audit('passkey_policy_changed', { requirePasscode: next.requirePasscode });
+    setPasskeyInfo(next);
+  };
+
+  // --- Profiles ---
+  // Only offered while LOCKED: everything per-profile is reloaded for the one picked
+  const switchProfile = (id: string) => {
+    setProfile(setActiveProfile(id));
+    setSettings(loadSettings());
+    setPasscodePolicy(loadPasscodePolicy());
+    setLockout(loadLockoutState());
+    setNow(Date.now());
+    setPasskeyInfo(getPasskeyInfo());
+    setDuressEnabled(hasDuressPasscode());
+    setAcceptedPasscode(null);
+    setUnlockError(null);
+    setInputPin('');
+  };
+
+  // In the decoy the list is only kept in state, so it looks changed until the next lock
+  const handleProfileCreated = (created: Profile, recoveryCode: string) => {
+    if (decoy) setProfiles(prev => [...prev, created]);
+    else {
+      setProfiles(listProfiles());
+      audit('profile_created', { target: created.name, role: created.role });
+    }
+    setRecoveryNotice({
+      code: recoveryCode,
+      message: `Profile "${created.name}" created. Hand this recovery code to them; it resets their passcode if they forget it.`,
+    });
+  };
+
+  const handleProfileUpdated = (updated: Profile) => {
+    if (decoy) return setProfiles(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+    setProfiles(listProfiles());
+    audit('profile_updated', { target: updated.name, role: updated.role });
+  };
+
+  const handleProfileDeleted = (deleted: Profile) => {
+    if (decoy) return setProfiles(prev => prev.filter(p => p.id !== deleted.id));
+    setProfiles(listProfiles());
+    audit('profile_deleted', { target: deleted.name });
+  };
+
+  // --- Duress ---
+  const handleDuressChange = (enabled: boolean) => {
+    if (!decoy) audit(enabled ? 'duress_passcode_set' : 'duress_passcode_removed');
+    setDuressEnabled(enabled);
+  };
+
+  // A duress PIN of the old length could no longer be typed, so it goes rather than silently failing
+  const syncDuressWithPolicy = (policy: PasscodePolicy) => {
+    if (!hasDuressPasscode() || duressFitsPolicy(policy)) return;
+    removeDuressPasscode();
+    setDuressEnabled(false);
+    audit('duress_passcode_removed', { reason: 'passcode changed' });
+  };
+
+  // --- Backup ---
+  // Reloading starts over from the restored credentials, as if the app had just been opened
+  const handleRestored = () => {
+    recordAuditEvent('backup_restored')
+      .catch(e => console.error("Failed to record audit event", e))
+      .finally(() => window.location.reload());
+  };
+
+  // --- AI Analysis ---
+  // Manual requests go through the same queue, so they share its retries and concurrency limit
   const handleAnalyze = async (log: IntruderLog) => {
-    setAnalyzingId(log.id);
-    const analysis = await analyzeIntruderImage(log.imageData);
-    
-    const updatedLogs = logs.map(l => 
-      l.id === log.id ? { ...l, aiAnalysis: analysis } : l
-    );
-    
-    setLogs(updatedLogs);
-    localStorage.setItem(LOGS_STORAGE_KEY, JSON.stringify(updatedLogs));
-    setAnalyzingId(null);
+    try {
+      await enqueueAnalysis(log.id, log.faceCropId ?? log.imageId, profile.id);
+      flushAnalysisQueue(analysisSettingsFor, logKey);
+    } catch (err) {
+      console.error("Failed to queue analysis", err);
+    }
+  };
+
+  const handleDeleteLog = async (log: IntruderLog) => {
+    if (!confirm('Delete this intruder log and its photo?')) return;
+    try {
+      await deleteLogs([log.id]);
+      audit('logs_deleted', { count: 1, reason: 'manual' });
+      await removeAnalysisJob(log.id);
+      setLogs(prev => prev.filter(l => l.id !== log.id));
+      setSelectedLogIds(prev => prev.filter(id => id !== log.id));
+    } catch (err) {
+      console.error("Failed to delete log", err);
+    }
   };
 
+  // --- Alert Resend ---
+  const handleResend = async (log: IntruderLog, channelType: AlertChannelType) => {
+    const channel = createAlertChannel(channelType, settings);
+    const delivery = channel
+      ? pendingDelivery(channelType)
+      : { ...pendingDelivery(channelType), status: 'failed' as const, lastError: 'Channel is disabled or not configured' };
+
+    setLogs(prev => prev.map(l => (l.id === log.id ? { ...l, delivery: mergeDelivery(l.delivery, delivery) } : l)));
+    try {
+      await updateLogDelivery(log.id, delivery);
+      if (!channel || !logKey) return;
+
+      const imageData = (await getLogMediaDataUrl(log.imageId, logKey)) ?? undefined;
+      const alert = log.duress
+        ? buildDuressAlert(imageData, log.id)
+        : buildIntrusionAlert(log.attemptNumber, imageData, log.id, undefined, suspectFor(log)?.status === 'known');
+      await enqueueAlert(alert, [channelType], profile.id);
+      flushOutbox(loadSettings, logKey);
+    } catch (err) {
+      console.error("Failed to queue security alert", err);
+    }
+  };
+
+  // --- Suspects ---
+  const handleSuspectRename = async (id: string, name: string) => {
+    try {
+      await renameSuspect(id, name);
+      setSuspects(prev => prev.map(s => (s.id === id ? { ...s, name: name || undefined } : s)));
+    } catch (err) {
+      console.error("Failed to rename suspect", err);
+    }
+  };
+
+  const handleSuspectStatus = async (id: string, status: SuspectStatus) => {
+    try {
+      await setSuspectStatus(id, status);
+      setSuspects(prev => prev.map(s => (s.id === id ? { ...s, status } : s)));
+    } catch (err) {
+      console.error("Failed to update suspect", err);
+    }
+  };
+
+  // Only confirmed matches become exemplars, so a suspect's face cluster cannot drift on its own
+  const handleSuspectConfirm = async (log: IntruderLog) => {
+    if (!log.suspectId || !log.faceHash) return;
+    const id = log.suspectId;
+    try {
+      const hashes = await confirmSuspectMatch(id, log.faceHash);
+      setSuspects(prev => prev.map(s => (s.id === id ? { ...s, hashes } : s)));
+    } catch (err) {
+      console.error("Failed to confirm suspect match", err);
+    }
+  };
+
+  // --- Settings ---
+  const openSettings = () => {
+    settingsOnOpenRef.current = settings;
+    setShowSettings(true);
+  };
+
+  // Retention is applied when the modal closes, not on every keystroke in the limit fields.
+  // Only the names of changed sections are audited, never their values (they include API keys).
+  const closeSettings = useCallback(() => {
+    setShowSettings(false);
+    if (decoy) {
+      setSettings(settingsOnOpenRef.current);
+      return;
+    }
+    const changed = (Object.keys(settings) as (keyof AppSettings)[])
+      .filter(key => JSON.stringify(settings[key]) !== JSON.stringify(settingsOnOpenRef.current[key]));
+    if (changed.length > 0) audit('settings_changed', { changed });
+    enforceRetention(settings.retention).catch(e => console.error("Failed to prune logs", e));
+  }, [decoy, settings, enforceRetention]);
+
+  // --- Locking ---
+  // An open settings modal is closed the usual way, so its edits are audited and applied
+  const lockVault = useCallback((reason: AutoLockReason | 'manual') => {
+    if (showSettings) closeSettings();
+    audit('lock', { reason });
+    setAppState(AppState.LOCKED);
+  }, [showSettings, closeSettings]);
+
+  useEffect(() => {
+    if (appState !== AppState.UNLOCKED) return;
+    return watchAutoLock(settings.autoLock, { onCountdown: setAutoLockCountdown, onLock: lockVault });
+  }, [appState, settings.autoLock, lockVault]);
+
   // --- Render Methods ---
+  const suspectFor = (log: IntruderLog) => suspects.find(s => s.id === log.suspectId);
+  const searchQuery = parseLogQuery(searchText);
+  const visibleLogs = logs.filter(log => {
+    if (suspectFilter && log.suspectId !== suspectFilter) return false;
+    const suspect = suspectFor(log);
+    return matchesLogQuery(log, searchQuery, suspect ? [suspectLabel(suspect)] : []);
+  });
+  // Incidents are grouped from every log so a filter never splits one in two
+  const toggleLogSelection = (id: string) =>
+    setSelectedLogIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  const selectedLogs = logs.filter(l => selectedLogIds.includes(l.id));
+  const visibleIncidents = groupIncidents(logs).filter(incident =>
+    incident.logs.some(log => visibleLogs.includes(log))
+  );
+  // The queue is shared by every profile; members only hear about their own attempts
+  const analysisQueue: AnalysisJob[] = Object.values(analysisJobs);
+  const queuedAnalyses = analysisQueue.filter(job => profile.role === 'admin' || logs.some(l => l.id === job.id));
+  const vaultStore = useMemo(
+    () => (decoy ? createDecoyVaultStore() : vaultKey ? createVaultStore(vaultKey) : null),
+    [decoy, vaultKey]
+  );
 
-  const renderDots = () => (
-    <div className="flex justify-center gap-4 mb-8">
-      {[0, 1, 2, 3].map((i) => (
-        <div
-          key={i}
-          className={`w-4 h-4 rounded-full transition-all duration-300 ${
-            i < inputPin.length 
-              ? (securityStatus === SecurityStatus.BREACH_DETECTED ? 'bg-red-500 scale-125' : 
-                 securityStatus === SecurityStatus.GRANTED ? 'bg-green-500 scale-125' : 'bg-white')
-              : 'bg-white/20'
-          }`}
+  const describeAnalysisJob = (job: AnalysisJob) => {
+    if (job.status === 'running') return 'Analyzing...';
+    if (job.status === 'failed') return `Analysis failed after ${job.attempts} attempts: ${job.lastError}`;
+    if (job.attempts > 0) return `Retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()} (${job.lastError})`;
+    return 'Queued for analysis...';
+  };
+
+
+  const renderDots = () => {
+    const slots = appState === AppState.SETUP
+      ? Math.max(MIN_PIN_LENGTH, inputPin.length)
+      : passcodePolicy.length;
+
+    return (
+      <div className="flex flex-wrap justify-center gap-4 mb-8 max-w-[280px] mx-auto">
+        {Array.from({ length: slots }, (_, i) => (
+          <div
+            key={i}
+            className={`w-4 h-4 rounded-full transition-all duration-300 ${
+              i < inputPin.length 
+                ? (securityStatus === SecurityStatus.BREACH_DETECTED ? 'bg-red-500 scale-125' : 
+                   securityStatus === SecurityStatus.GRANTED ? 'bg-green-500 scale-125' : 'bg-white')
+                : 'bg-white/20'
+            }`}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const renderRecoveryNotice = () => recoveryNotice && (
+    <RecoveryCodeNotice
+      code={recoveryNotice.code}
+      message={recoveryNotice.message}
+      onDismiss={() => setRecoveryNotice(null)}
+    />
+  );
+
+  const renderPasscodeEntry = (disabled: boolean) => (
+    activeMode === 'passphrase' ? (
+      <PassphraseInput
+        value={inputPin}
+        onChange={setInputPin}
+        onSubmit={handlePinSubmit}
+        disabled={disabled}
+        minLength={minEntryLength}
+      />
+    ) : (
+      <>
+        {renderDots()}
+        <Keypad
+          onKeyPress={handleKeyPress}
+          onDelete={handleDelete}
+          onSubmit={handlePinSubmit}
+          submitDisabled={inputPin.length < minEntryLength}
+          disabled={disabled}
         />
-      ))}
-    </div>
+      </>
+    )
   );
 
   // --- SETUP VIEW ---
@@ -263,9 +1046,34 @@ const App: React.FC = () => {
       <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-4 text-center">
         <Shield className="w-20 h-20 text-blue-500 mb-6" />
         <h1 className="text-3xl font-bold mb-2">Setup VaultGuard</h1>
-        <p className="text-slate-400 mb-8">Create a 4-digit passcode to secure your vault.</p>
-        {renderDots()}
-        <Keypad onKeyPress={handleKeyPress} onDelete={handleDelete} />
+        <p className="text-slate-400 mb-6">
+          {setupMode === 'pin'
+            ? `Create a ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digit PIN to secure your vault.`
+            : `Create a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters to secure your vault.`}
+        </p>
+
+        <div className="flex bg-slate-800 rounded-lg p-1 mb-6">
+          {(['pin', 'passphrase'] as PasscodeMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => { setSetupMode(mode); setInputPin(''); setSetupError(null); }}
+              className={`px-4 py-1.5 rounded-md text-sm transition-colors ${setupMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {mode === 'pin' ? 'PIN' : 'Passphrase'}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-sm text-red-400 mb-4 h-5">{setupError}</p>
+        {renderPasscodeEntry(securityStatus !== SecurityStatus.IDLE)}
+
+        <button
+          onClick={() => setShowRestore(true)}
+          className="mt-6 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+        >
+          Restore from a backup
+        </button>
+        {showRestore && <RestoreBackupModal onRestored={handleRestored} onClose={() => setShowRestore(false)} />}
       </div>
     );
   }
@@ -276,7 +1084,16 @@ const App: React.FC = () => {
       <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-4 relative overflow-hidden">
         {/* Hidden Video Element for Capture */}
         <video ref={videoRef} autoPlay playsInline muted className="hidden" />
-        <canvas ref={canvasRef} className="hidden" />
+
+        {renderRecoveryNotice()}
+        {showRecovery && (
+          <RecoveryModal
+            lockedOut={lockoutRemaining > 0}
+            onFailedAttempt={handleRecoveryFailure}
+            onRecovered={handleRecovered}
+            onClose={() => setShowRecovery(false)}
+          />
+        )}
 
         {/* Alert Toast */}
         {alertMessage && (
@@ -299,28 +1116,99 @@ const App: React.FC = () => {
             )}
            </div>
 
+          {profiles.length > 1 && (
+            <div className="mb-6 flex flex-wrap justify-center gap-2">
+              {profiles.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => switchProfile(p.id)}
+                  disabled={securityStatus !== SecurityStatus.IDLE}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm transition-colors disabled:opacity-50 ${p.id === profile.id ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  <User size={14} />
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          )}
+
           <h2 className="text-xl font-medium mb-2">
             {securityStatus === SecurityStatus.BREACH_DETECTED ? "ACCESS DENIED" : "Enter Passcode"}
           </h2>
           <p className="text-sm text-slate-500 mb-8 h-5">
-            {securityStatus === SecurityStatus.BREACH_DETECTED && `Attempt ${sessionFailedAttempts} failed.`}
+            {securityStatus === SecurityStatus.BREACH_DETECTED && `Attempt ${lockout.failedAttempts} failed.`}
             {securityStatus === SecurityStatus.CHECKING && "Verifying..."}
           </p>
 
-          {renderDots()}
-          <Keypad 
-            onKeyPress={handleKeyPress} 
-            onDelete={handleDelete} 
-            disabled={securityStatus !== SecurityStatus.IDLE}
-          />
+          {lockoutRemaining > 0 && (
+            <div className="mb-4 flex items-center gap-2 text-sm text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-full px-4 py-2">
+              <Timer size={16} />
+              <span>Too many failed attempts. Try again in <span className="font-mono">{formatDuration(lockoutRemaining)}</span></span>
+            </div>
+          )}
+
+          {unlockError && (
+            <p className="mb-4 text-sm text-red-400 text-center max-w-xs">{unlockError}</p>
+          )}
+
+          {acceptedPasscode !== null ? (
+            <div className="flex flex-col items-center gap-3 text-center">
+              <p className="text-sm text-slate-400">Passcode accepted. Confirm with your passkey to unlock.</p>
+              <button
+                onClick={handlePasskeyUnlock}
+                disabled={securityStatus !== SecurityStatus.IDLE || lockoutRemaining > 0}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+              >
+                <Fingerprint size={20} />
+                Confirm with passkey
+              </button>
+              <button onClick={() => setAcceptedPasscode(null)} className="text-xs text-slate-500 hover:text-slate-300">
+                Start over
+              </button>
+            </div>
+          ) : (
+            renderPasscodeEntry(securityStatus !== SecurityStatus.IDLE || lockoutRemaining > 0)
+          )}
+
+          {passkeyInfo && !passkeyInfo.requirePasscode && (
+            <button
+              onClick={handlePasskeyUnlock}
+              disabled={securityStatus !== SecurityStatus.IDLE || lockoutRemaining > 0}
+              className="mt-6 flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 transition-colors disabled:opacity-50"
+            >
+              <Fingerprint size={18} />
+              Unlock with passkey
+            </button>
+          )}
           
+          <button
+            onClick={() => setShowRecovery(true)}
+            className="mt-6 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Forgot passcode?
+          </button>
+
           <div className="mt-12 flex flex-col items-center gap-2">
              <p className="text-xs text-slate-600 uppercase tracking-widest">Protected by Gemini AI</p>
              {settings.enableCapture && (
-                 <div className="flex items-center gap-1 text-[10px] text-slate-700">
-                    <Camera size={10} />
-                    <span>Monitoring Active</span>
-                 </div>
+                 cameraStatus === 'active' ? (
+                     <div className="flex items-center gap-1 text-[10px] text-slate-700">
+                        <Camera size={10} />
+                        <span>Monitoring Active</span>
+                     </div>
+                 ) : cameraStatus === 'reconnecting' ? (
+                     <div className="flex items-center gap-1 text-[10px] text-amber-400">
+                        <Loader2 size={10} className="animate-spin" />
+                        <span>Camera lost, reconnecting. Intruders are not being photographed</span>
+                     </div>
+                 ) : (cameraStatus === 'denied' || cameraStatus === 'unavailable') && (
+                     <div className="flex items-center gap-1 text-[10px] text-red-400">
+                        <CameraOff size={10} />
+                        <span>
+                            {cameraStatus === 'denied' ? 'Camera blocked' : 'No camera found'}. Intruders are not being photographed
+                        </span>
+                     </div>
+                 )
              )}
           </div>
         </div>
@@ -336,16 +1224,22 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2">
             <Shield className="text-blue-500" />
             <span className="font-bold text-lg">VaultGuard</span>
+            {profiles.length > 1 && (
+              <span className="text-xs text-slate-400 bg-slate-800 px-2 py-1 rounded flex items-center gap-1">
+                <User size={12} />
+                {profile.name}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
              <button 
-                onClick={() => setShowSettings(true)}
+                onClick={openSettings}
                 className="p-2 rounded-lg hover:bg-white/10 transition-colors text-slate-400 hover:text-white"
              >
                 <Settings size={20} />
              </button>
              <button 
-                onClick={() => setAppState(AppState.LOCKED)}
+                onClick={() => lockVault('manual')}
                 className="p-2 rounded-lg hover:bg-white/10 transition-colors"
              >
                 <Lock size={20} />
@@ -363,11 +1257,11 @@ const App: React.FC = () => {
                           <Settings size={20} className="text-blue-400" />
                           Security Settings
                       </h3>
-                      <button onClick={() => setShowSettings(false)} className="text-slate-400 hover:text-white">
+                      <button onClick={closeSettings} className="text-slate-400 hover:text-white">
                           <X size={24} />
                       </button>
                   </div>
-                  <div className="p-6 space-y-6">
+                  <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
                       
                       {/* Threshold Setting */}
                       <div className="space-y-2">
@@ -389,24 +1283,127 @@ const App: React.FC = () => {
                           </p>
                       </div>
 
-                      {/* Alert Email */}
+                      {/* Passcode & Recovery */}
+                      <PasscodeSettings
+                        decoy={decoy}
+                        vaultKey={vaultKey}
+                        policy={passcodePolicy}
+                        onPasscodeChanged={(policy) => {
+                          setPasscodePolicy(policy);
+                          syncDuressWithPolicy(policy);
+                          audit('passcode_changed', { mode: policy.mode });
+                        }}
+                        onRecoveryCodeCreated={(code) => {
+                          if (!decoy) audit('recovery_code_created');
+                          setRecoveryNotice({
+                            code,
+                            message: 'Your new recovery code replaces the previous one.',
+                          });
+                        }}
+                      />
+
+                      {/* Passkey */}
+                      <PasskeySettings
+                        decoy={decoy}
+                        vaultKey={vaultKey}
+                        passkey={decoy ? null : passkeyInfo}
+                        onChange={handlePasskeyChange}
+                      />
+
+                      {/* Profiles */}
+                      {profile.role === 'admin' && (
+                        <ProfileSettings
+                          decoy={decoy}
+                          profiles={profiles}
+                          activeId={profile.id}
+                          logKey={logKey}
+                          onCreated={handleProfileCreated}
+                          onUpdated={handleProfileUpdated}
+                          onDeleted={handleProfileDeleted}
+                        />
+                      )}
+
+                      {/* Duress */}
+                      <DuressSettings decoy={decoy} policy={passcodePolicy} enabled={duressEnabled} onChange={handleDuressChange} />
+
+                      {/* Lockout Policy */}
                       <div className="space-y-2">
-                          <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                              <Mail size={16} />
-                              Alert Email Address
+                          <label className="text-sm font-medium text-slate-300 flex justify-between">
+                              <span>Attempts Before Lockout</span>
+                              <span className="text-blue-400 font-bold">{settings.lockoutThreshold}</span>
                           </label>
                           <input 
-                              type="email" 
-                              value={settings.alertEmail}
-                              onChange={(e) => setSettings({...settings, alertEmail: e.target.value})}
-                              placeholder="admin@example.com"
+                             type="range" 
+                             min="1" 
+                             max="10" 
+                             step="1"
+                             value={settings.lockoutThreshold}
+                             onChange={(e) => setSettings({...settings, lockoutThreshold: parseInt(e.target.value)})}
+                             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                          />
+                          <label className="text-xs text-slate-400 block pt-2">Escalating cooldowns (seconds, comma separated)</label>
+                          <input 
+                              type="text" 
+                              defaultValue={settings.lockoutDurations.join(', ')}
+                              onBlur={(e) => {
+                                const durations = e.target.value.split(',').map(v => parseInt(v.trim())).filter(v => v > 0);
+                                setSettings({...settings, lockoutDurations: durations});
+                                e.target.value = durations.join(', ');
+                              }}
+                              placeholder="30, 60, 300, 3600"
                               className="w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all"
                           />
                           <p className="text-xs text-slate-500">
-                              Security alerts and photos will be sent to this email immediately upon breach.
+                              After {settings.lockoutThreshold} failed attempt{settings.lockoutThreshold > 1 ? 's' : ''}, each further failure locks the keypad for the next cooldown. The last one repeats.
                           </p>
                       </div>
 
+                      {/* Wipe Policy */}
+                      <div className="space-y-2">
+                          <label className="text-sm font-medium text-slate-300 flex justify-between">
+                              <span>Wipe Vault After Failures</span>
+                              <span className="text-red-400 font-bold">{settings.wipeAfterFailures > 0 ? settings.wipeAfterFailures : 'Off'}</span>
+                          </label>
+                          <input 
+                             type="range" 
+                             min="0" 
+                             max="50" 
+                             step="5"
+                             value={settings.wipeAfterFailures}
+                             onChange={(e) => setSettings({...settings, wipeAfterFailures: parseInt(e.target.value)})}
+                             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-red-500"
+                          />
+                          <p className="text-xs text-slate-500">
+                              {settings.wipeAfterFailures > 0
+                                ? `All secured documents are permanently destroyed after ${settings.wipeAfterFailures} consecutive failed attempts.`
+                                : 'Documents are never wiped automatically.'}
+                          </p>
+                      </div>
+
+                      {/* Alert Delivery */}
+                      <AlertChannelSettings settings={settings} onChange={setSettings} />
+
+                      {/* AI Analysis */}
+                      <AnalysisProviderSettings
+                        analysis={settings.analysis}
+                        onChange={(analysis) => setSettings({...settings, analysis})}
+                      />
+
+                      {/* Log Retention */}
+                      <RetentionSettings
+                        retention={settings.retention}
+                        onChange={(retention) => setSettings({...settings, retention})}
+                      />
+
+                      {/* Auto-Lock */}
+                      <AutoLockSettings
+                        autoLock={settings.autoLock}
+                        onChange={(autoLock) => setSettings({...settings, autoLock})}
+                      />
+
+                      {/* Backup */}
+                      <BackupSettings decoy={decoy} onBackupCreated={() => { if (!decoy) audit('backup_created'); }} />
+
                       {/* Toggle Capture */}
                       <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-xl border border-white/5">
                           <div className="space-y-1">
@@ -421,10 +1418,23 @@ const App: React.FC = () => {
                           </button>
                       </div>
 
+                      {settings.enableCapture && (
+                        <>
+                          <CameraSettings
+                            capture={settings.capture}
+                            onChange={(capture) => setSettings({...settings, capture})}
+                          />
+                          <CaptureModeSettings
+                            capture={settings.capture}
+                            onChange={(capture) => setSettings({...settings, capture})}
+                          />
+                        </>
+                      )}
+
                   </div>
                   <div className="p-4 bg-slate-900/80 border-t border-white/10">
                       <button 
-                        onClick={() => setShowSettings(false)}
+                        onClick={closeSettings}
                         className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 rounded-xl flex items-center justify-center gap-2 transition-colors"
                       >
                           <Save size={18} />
@@ -435,21 +1445,69 @@ const App: React.FC = () => {
           </div>
       )}
 
+      {renderRecoveryNotice()}
+
+      {/* Auto-Lock Warning */}
+      {autoLockCountdown !== null && (
+          <div className="fixed bottom-6 left-0 right-0 flex justify-center z-50 px-4">
+              <div className="bg-amber-500/90 text-slate-950 px-5 py-3 rounded-full shadow-lg flex items-center gap-3 backdrop-blur-sm">
+                  <Timer size={18} />
+                  <span className="text-sm font-medium">
+                      Locking in <span className="font-mono">{formatDuration(autoLockCountdown)}</span> due to inactivity
+                  </span>
+                  <span className="text-xs underline">Move or tap to stay unlocked</span>
+              </div>
+          </div>
+      )}
+
       <main className="max-w-2xl mx-auto px-4 py-8 space-y-8">
         
         {/* Stats Section */}
-        <div className="grid grid-cols-2 gap-4">
-            <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
-                <div className="text-slate-400 text-sm mb-1">Total Attempts</div>
-                <div className="text-2xl font-bold">{logs.length}</div>
-            </div>
-            <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
-                <div className="text-slate-400 text-sm mb-1">Last Breach</div>
-                <div className="text-xl font-medium">
-                    {logs.length > 0 ? new Date(logs[0].timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : 'N/A'}
-                </div>
-            </div>
-        </div>
+        <SecurityDashboard
+          logs={logs}
+          logKey={decoy ? null : logKey}
+          profileId={profile.role === 'admin' ? undefined : profile.id}
+        >
+          <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
+              <div className="text-slate-400 text-sm mb-1">Log Storage</div>
+              <div className="text-xl font-medium">{formatBytes(storageUsage?.logBytes ?? 0)}</div>
+              {storageUsage?.quota !== undefined && (
+                  <>
+                      <div className="mt-2 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                          <div
+                              className="h-full bg-blue-500"
+                              style={{ width: `${Math.min(100, ((storageUsage.usage ?? 0) / storageUsage.quota) * 100)}%` }}
+                          />
+                      </div>
+                      <div className="text-[10px] text-slate-500 mt-1">
+                          {formatBytes(storageUsage.usage ?? 0)} of {formatBytes(storageUsage.quota)} used by this site
+                      </div>
+                  </>
+              )}
+              {storageUsage?.persisted === false && (
+                  <button
+                      onClick={keepStorage}
+                      className="text-[10px] text-amber-400 hover:text-amber-300 mt-1 text-left"
+                      title="The browser may delete logs when the device runs low on space"
+                  >
+                      Storage may be cleared. Keep on this device
+                  </button>
+              )}
+          </div>
+        </SecurityDashboard>
+
+        {/* Suspects */}
+        {logKey && (
+          <SuspectsPanel
+            suspects={suspects}
+            logs={logs}
+            logKey={logKey}
+            selectedId={suspectFilter}
+            onSelect={setSuspectFilter}
+            onRename={handleSuspectRename}
+            onStatusChange={handleSuspectStatus}
+          />
+        )}
 
         {/* Intruder Gallery */}
         <div>
@@ -458,23 +1516,86 @@ const App: React.FC = () => {
                 <History className="text-orange-500" size={20} />
                 Intruder Logs
               </h3>
-              <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-white/5">
-                  Encrypted Storage
-              </span>
+              <div className="flex items-center gap-2">
+                  {!decoy && queuedAnalyses.length > 0 && (
+                      <span className="text-xs text-purple-300 bg-purple-500/10 px-2 py-1 rounded flex items-center gap-1">
+                          {queuedAnalyses.some(j => j.status === 'running') && <Loader2 className="animate-spin" size={12} />}
+                          {queuedAnalyses.filter(j => j.status !== 'failed').length} in analysis queue
+                          {queuedAnalyses.some(j => j.status === 'failed') && ` · ${queuedAnalyses.filter(j => j.status === 'failed').length} failed`}
+                      </span>
+                  )}
+                  <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-white/5">
+                      Encrypted Storage
+                  </span>
+              </div>
           </div>
           
-          {logs.length === 0 ? (
+          {logs.length > 0 && (
+            <div className="mb-4 space-y-2">
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
+                  <input
+                    type="search"
+                    value={searchText}
+                    onChange={(e) => setSearchText(e.target.value)}
+                    placeholder="e.g. night attempts last week, threat 4+"
+                    className="w-full bg-slate-900 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-sm focus:border-blue-500 outline-none"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-1 p-1 bg-slate-800 rounded-lg text-sm">
+                  {(['attempts', 'incidents'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setGalleryView(view)}
+                      className={`px-3 py-1 rounded capitalize transition-colors ${galleryView === view ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                      {view}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {!isEmptyQuery(searchQuery) && (
+                <div className="flex flex-wrap gap-1.5">
+                  {describeLogQuery(searchQuery).map(chip => (
+                    <span key={chip} className="text-xs bg-blue-500/10 text-blue-300 px-2 py-0.5 rounded">{chip}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {logsError ? (
+            <p className="text-sm text-red-400 text-center py-8">{logsError}</p>
+          ) : logs.length === 0 ? (
             <div className="text-center py-12 border border-dashed border-white/10 rounded-xl bg-slate-900/50">
               <CheckCircle2 className="w-12 h-12 mx-auto text-green-500/50 mb-2" />
               <p className="text-slate-400">No failed attempts recorded. Your vault is secure.</p>
             </div>
+          ) : galleryView === 'incidents' && logKey ? (
+            <IncidentList incidents={visibleIncidents} logKey={logKey} analysis={settings.analysis} />
+          ) : visibleLogs.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No attempts match this search.</p>
           ) : (
+            <>
+            {logKey && (
+              <EvidenceExportBar
+                logs={selectedLogs.length > 0 ? selectedLogs : visibleLogs}
+                selected={selectedLogs.length > 0}
+                suspects={suspects}
+                logKey={logKey}
+                includeAudit={profile.role === 'admin'}
+                onClearSelection={() => setSelectedLogIds([])}
+                onExported={(format, count) => audit('logs_exported', { format, count })}
+              />
+            )}
             <div className="space-y-4">
-              {logs.map((log) => (
+              {visibleLogs.map((log) => (
                 <div key={log.id} className="bg-slate-900 border border-white/10 rounded-xl overflow-hidden flex flex-col sm:flex-row">
                   <div className="sm:w-32 sm:h-32 w-full h-48 bg-black relative shrink-0">
-                    <img 
-                      src={log.imageData} 
+                    <LogMedia 
+                      mediaId={log.imageId} 
+                      logKey={logKey} 
                       alt="Intruder" 
                       className="w-full h-full object-cover opacity-80 hover:opacity-100 transition-opacity"
                     />
@@ -487,28 +1608,82 @@ const App: React.FC = () => {
                     <div>
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-medium text-red-400 flex items-center gap-2">
-                            <ShieldAlert size={16} />
-                            Unauthorized Access
+                            <input
+                                type="checkbox"
+                                checked={selectedLogIds.includes(log.id)}
+                                onChange={() => toggleLogSelection(log.id)}
+                                className="accent-blue-500"
+                                aria-label="Select for export"
+                            />
+                            {log.duress ? <Siren size={16} /> : <ShieldAlert size={16} />}
+                            {log.duress ? 'Unlocked Under Duress' : 'Unauthorized Access'}
                         </h4>
                         <span className="text-xs text-slate-500">{new Date(log.timestamp).toLocaleString()}</span>
                       </div>
                       
-                      <div className="flex items-center gap-2 mb-2">
-                         <span className="text-xs bg-slate-800 text-slate-300 px-2 py-1 rounded">
-                            Attempt #{log.attemptNumber}
-                         </span>
-                         {settings.alertEmail && (
-                             <span className="text-xs bg-blue-900/30 text-blue-400 px-2 py-1 rounded flex items-center gap-1">
-                                 <BellRing size={10} /> Alert Sent
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                         {log.duress ? (
+                             <span className="text-xs bg-red-500/10 text-red-300 px-2 py-1 rounded">
+                                Duress passcode · decoy shown
+                             </span>
+                         ) : (
+                             <span className="text-xs bg-slate-800 text-slate-300 px-2 py-1 rounded">
+                                Attempt #{log.attemptNumber}
                              </span>
                          )}
+                         {profile.role === 'admin' && profiles.length > 1 && (
+                             <span className="text-xs bg-slate-800 text-slate-300 px-2 py-1 rounded flex items-center gap-1">
+                                <User size={12} />
+                                {profileName(log.profileId)}
+                             </span>
+                         )}
+                         {suspectFor(log) && (
+                             <span className="flex items-center text-xs bg-orange-500/10 text-orange-300 rounded overflow-hidden">
+                                 <button
+                                     onClick={() => setSuspectFilter(log.suspectId ?? null)}
+                                     className="hover:bg-orange-500/20 px-2 py-1"
+                                 >
+                                    {suspectLabel(suspectFor(log)!)}
+                                 </button>
+                                 {log.faceHash && !suspectFor(log)!.hashes.includes(log.faceHash) && (
+                                     <button
+                                         onClick={() => handleSuspectConfirm(log)}
+                                         className="hover:bg-orange-500/20 px-1.5 py-1 border-l border-orange-500/20"
+                                         title="Confirm it is this person, so future captures of them match more reliably"
+                                         aria-label="Confirm suspect match"
+                                     >
+                                        <CheckCircle2 size={12} />
+                                     </button>
+                                 )}
+                             </span>
+                         )}
+                         {log.face && (
+                             <span
+                                 className="text-xs bg-slate-800 text-slate-300 px-2 py-1 rounded flex items-center gap-1"
+                                 title={log.face.method === 'native' ? 'Detected by the browser face detector' : 'Estimated from skin tones'}
+                             >
+                                <ScanFace size={12} />
+                                Face {Math.round(log.face.confidence * 100)}%
+                             </span>
+                         )}
+                         {log.delivery && (
+                             <DeliveryStatus
+                                 deliveries={log.delivery}
+                                 onResend={(channel) => handleResend(log, channel)}
+                             />
+                         )}
                       </div>
 
+                      {listLogMedia(log).length > 1 && (
+                          <LogMediaStrip media={listLogMedia(log)} primaryId={log.imageId} faceCropId={log.faceCropId} logKey={logKey} />
+                      )}
+
                       {log.aiAnalysis ? (
-                        <div className="bg-slate-800/50 rounded p-3 text-sm text-slate-300 mt-2 border-l-2 border-purple-500">
-                            <p className="text-xs text-purple-400 font-bold mb-1 flex items-center gap-1">GEMINI ANALYSIS</p>
-                            {log.aiAnalysis}
-                        </div>
+                        <ThreatAnalysisCard analysis={log.aiAnalysis} />
+                      ) : analysisJobs[log.id] ? (
+                        <p className={`text-sm mt-2 ${analysisJobs[log.id].status === 'failed' ? 'text-red-400' : 'text-slate-400'}`}>
+                            {describeAnalysisJob(analysisJobs[log.id])}
+                        </p>
                       ) : (
                         <p className="text-sm text-slate-500 italic mt-2">
                             Pending detailed analysis...
@@ -516,45 +1691,45 @@ const App: React.FC = () => {
                       )}
                     </div>
 
-                    {!log.aiAnalysis && (
-                        <button 
-                            onClick={() => handleAnalyze(log)}
-                            disabled={analyzingId === log.id}
-                            className="mt-4 flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white text-sm py-2 px-4 rounded-lg transition-colors w-full sm:w-auto disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            {analyzingId === log.id ? (
-                                <><Loader2 className="animate-spin" size={16} /> Analyzing...</>
-                            ) : (
-                                <><Camera size={16} /> Analyze Suspect</>
-                            )}
-                        </button>
-                    )}
+                    <div className="mt-4 flex items-center gap-2">
+                      {!log.aiAnalysis && (
+                          <button 
+                              onClick={() => handleAnalyze(log)}
+                              disabled={analysisJobs[log.id] && analysisJobs[log.id].status !== 'failed'}
+                              className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white text-sm py-2 px-4 rounded-lg transition-colors flex-1 sm:flex-none disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                              {analysisJobs[log.id]?.status === 'running' ? (
+                                  <><Loader2 className="animate-spin" size={16} /> Analyzing...</>
+                              ) : analysisJobs[log.id]?.status === 'queued' ? (
+                                  <><Clock size={16} /> Queued</>
+                              ) : analysisJobs[log.id]?.status === 'failed' ? (
+                                  <><RotateCcw size={16} /> Retry Analysis</>
+                              ) : (
+                                  <><Camera size={16} /> Analyze Suspect</>
+                              )}
+                          </button>
+                      )}
+                      <button
+                          onClick={() => handleDeleteLog(log)}
+                          className="ml-auto p-2 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                          aria-label="Delete log"
+                      >
+                          <Trash2 size={16} />
+                      </button>
+                    </div>
                   </div>
                 </div>
               ))}
             </div>
+            </>
           )}
         </div>
 
-        {/* Dummy Vault Content */}
-        <div>
-            <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold">Secured Documents</h3>
-                <ChevronRight className="text-slate-600" size={20} />
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-                 {[1, 2, 3, 4].map(i => (
-                     <div key={i} className="aspect-[4/3] bg-slate-800 rounded-lg flex items-center justify-center border border-white/5 hover:border-blue-500/50 transition-colors cursor-pointer group">
-                         <div className="text-center">
-                             <div className="w-12 h-12 bg-slate-700 rounded-full mx-auto mb-2 flex items-center justify-center group-hover:bg-blue-500/20 transition-colors">
-                                 <Lock className="w-5 h-5 text-slate-400 group-hover:text-blue-400" />
-                             </div>
-                             <span className="text-xs text-slate-500">Encrypted_File_00{i}.dat</span>
-                         </div>
-                     </div>
-                 ))}
-            </div>
-        </div>
+        {/* Document Vault */}
+        {vaultStore && <DocumentVault store={vaultStore} />}
+
+        {/* Audit Trail */}
+        {(logKey || decoy) && profile.role === 'admin' && <AuditTimeline logKey={decoy ? null : logKey} />}
 
       </main>
     </div>
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { BellRing, Mail, Webhook, Send, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { AppSettings, AlertChannelSettings as ChannelSettings } from '../types';
+import { buildTestAlert, getEnabledChannels } from '../services/alertService';
+
+interface AlertChannelSettingsProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+interface TestResult {
+  label: string;
+  error?: string;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all";
+
+const Toggle: React.FC<{ on: boolean; onToggle: () => void }> = ({ on, onToggle }) => (
+  <button
+    onClick={onToggle}
+    className={`w-12 h-6 rounded-full relative transition-colors duration-300 shrink-0 ${on ? 'bg-green-500' : 'bg-slate-600'}`}
+  >
+    <div className={`w-4 h-4 bg-white rounded-full absolute top-1 transition-transform duration-300 ${on ? 'left-7' : 'left-1'}`} />
+  </button>
+);
+
+const AlertChannelSettings: React.FC<AlertChannelSettingsProps> = ({ settings, onChange }) => {
+  const [testing, setTesting] = useState(false);
+  const [testResults, setTestResults] = useState<TestResult[] | null>(null);
+
+  const channels = settings.alertChannels;
+
+  const updateChannel = <K extends keyof ChannelSettings>(key: K, patch: Partial<ChannelSettings[K]>) => {
+    onChange({
+      ...settings,
+      alertChannels: { ...channels, [key]: { ...channels[key], ...patch } },
+    });
+  };
+
+  const handleNotificationToggle = async () => {
+    if (!channels.notification.enabled && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    updateChannel('notification', { enabled: !channels.notification.enabled });
+  };
+
+  // Test alerts bypass the outbox so the result is reported immediately
+  const handleTest = async () => {
+    const enabled = getEnabledChannels(settings);
+    if (enabled.length === 0) {
+      setTestResults([]);
+      return;
+    }
+
+    setTesting(true);
+    const alert = buildTestAlert();
+    const results = await Promise.all(
+      enabled.map(async (channel): Promise<TestResult> => {
+        try {
+          await channel.send(alert);
+          return { label: channel.label };
+        } catch (err) {
+          return { label: channel.label, error: err instanceof Error ? err.message : String(err) };
+        }
+      })
+    );
+    setTestResults(results);
+    setTesting(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <BellRing size={16} />
+        Alert Delivery
+      </label>
+
+      {/* Email via SMTP relay */}
+      <div className="p-4 bg-slate-800/50 rounded-xl border border-white/5 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <div className="font-medium text-white flex items-center gap-2"><Mail size={14} /> Email</div>
+            <div className="text-xs text-slate-400">Sent through an HTTP-to-SMTP relay endpoint</div>
+          </div>
+          <Toggle on={channels.smtp.enabled} onToggle={() => updateChannel('smtp', { enabled: !channels.smtp.enabled })} />
+        </div>
+        {channels.smtp.enabled && (
+          <>
+            <input
+              type="email"
+              value={settings.alertEmail}
+              onChange={(e) => onChange({ ...settings, alertEmail: e.target.value })}
+              placeholder="admin@example.com"
+              className={inputClassName}
+            />
+            <input
+              type="url"
+              value={channels.smtp.endpoint}
+              onChange={(e) => updateChannel('smtp', { endpoint: e.target.value })}
+              placeholder="https://relay.example.com/send"
+              className={inputClassName}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="email"
+                value={channels.smtp.from}
+                onChange={(e) => updateChannel('smtp', { from: e.target.value })}
+                placeholder="From (optional)"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={channels.smtp.apiKey}
+                onChange={(e) => updateChannel('smtp', { apiKey: e.target.value })}
+                placeholder="Relay API key"
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Webhook */}
+      <div className="p-4 bg-slate-800/50 rounded-xl border border-white/5 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <div className="font-medium text-white flex items-center gap-2"><Webhook size={14} /> Webhook</div>
+            <div className="text-xs text-slate-400">JSON POST including the intruder photo</div>
+          </div>
+          <Toggle on={channels.webhook.enabled} onToggle={() => updateChannel('webhook', { enabled: !channels.webhook.enabled })} />
+        </div>
+        {channels.webhook.enabled && (
+          <input
+            type="url"
+            value={channels.webhook.url}
+            onChange={(e) => updateChannel('webhook', { url: e.target.value })}
+            placeholder="https://hooks.example.com/vaultguard"
+            className={inputClassName}
+          />
+        )}
+      </div>
+
+      {/* Browser Notifications */}
+      <div className="p-4 bg-slate-800/50 rounded-xl border border-white/5 flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="font-medium text-white flex items-center gap-2"><BellRing size={14} /> Browser Notification</div>
+          <div className="text-xs text-slate-400">
+            {'Notification' in window && Notification.permission === 'denied'
+              ? 'Blocked by the browser. Allow notifications for this site to use it.'
+              : 'Shows a system notification on this device'}
+          </div>
+        </div>
+        <Toggle on={channels.notification.enabled} onToggle={handleNotificationToggle} />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Alerts that cannot be delivered (for example while offline) are queued and retried automatically.
+      </p>
+
+      <button
+        onClick={handleTest}
+        disabled={testing}
+        className="w-full bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-white flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+      >
+        {testing ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
+        Send test alert
+      </button>
+
+      {testResults && (
+        <div className="space-y-1 text-xs">
+          {testResults.length === 0 && <p className="text-slate-500">No alert channels are enabled and configured.</p>}
+          {testResults.map(result => (
+            <p key={result.label} className={`flex items-center gap-1 ${result.error ? 'text-red-400' : 'text-green-400'}`}>
+              {result.error ? <XCircle size={12} /> : <CheckCircle2 size={12} />}
+              {result.label}: {result.error ?? 'delivered'}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertChannelSettings;
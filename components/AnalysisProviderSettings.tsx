@@ -0,0 +1,133 @@
+import React from 'react';
+import { Sparkles, RotateCcw } from 'lucide-react';
+import { AnalysisProviderType, AnalysisSettings } from '../types';
+import { DEFAULT_MODELS, PROVIDER_LABELS } from '../services/analysisService';
+import { DEFAULT_ANALYSIS_PROMPT } from '../services/prompts';
+
+interface AnalysisProviderSettingsProps {
+  analysis: AnalysisSettings;
+  onChange: (analysis: AnalysisSettings) => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<AnalysisProviderType, string> = {
+  gemini: 'Photos are sent to Google Gemini using the API key this app was built with.',
+  openai: 'Photos are sent to a server speaking the OpenAI chat API, such as a local Ollama or LM Studio.',
+  offline: 'No network access. Returns made-up but repeatable results, for development and testing only.',
+};
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all";
+
+const AnalysisProviderSettings: React.FC<AnalysisProviderSettingsProps> = ({ analysis, onChange }) => (
+  <div className="space-y-3">
+    <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+      <Sparkles size={16} />
+      AI Analysis
+    </label>
+    <div className="grid grid-cols-3 gap-1 p-1 bg-slate-800 rounded-lg">
+      {(Object.keys(PROVIDER_LABELS) as AnalysisProviderType[]).map(provider => (
+        <button
+          key={provider}
+          onClick={() => onChange({ ...analysis, provider })}
+          className={`py-1.5 text-xs rounded-md transition-colors ${analysis.provider === provider ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+        >
+          {PROVIDER_LABELS[provider]}
+        </button>
+      ))}
+    </div>
+    <p className="text-xs text-slate-500">{PROVIDER_DESCRIPTIONS[analysis.provider]}</p>
+
+    {analysis.provider === 'openai' && (
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1 col-span-2">
+          <span className="text-xs text-slate-400">Endpoint</span>
+          <input
+            type="url"
+            value={analysis.endpoint}
+            onChange={(e) => onChange({ ...analysis, endpoint: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1 col-span-2">
+          <span className="text-xs text-slate-400">API key (optional)</span>
+          <input
+            type="password"
+            value={analysis.apiKey}
+            onChange={(e) => onChange({ ...analysis, apiKey: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+    )}
+
+    {analysis.provider !== 'offline' && (
+      <>
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Model</span>
+          <input
+            type="text"
+            value={analysis.model}
+            onChange={(e) => onChange({ ...analysis, model: e.target.value })}
+            placeholder={DEFAULT_MODELS[analysis.provider]}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400 flex justify-between items-center">
+            <span>Prompt</span>
+            {analysis.prompt && (
+              <button
+                onClick={() => onChange({ ...analysis, prompt: '' })}
+                className="flex items-center gap-1 text-blue-400 hover:text-blue-300"
+              >
+                <RotateCcw size={12} /> Default
+              </button>
+            )}
+          </span>
+          <textarea
+            rows={3}
+            value={analysis.prompt}
+            onChange={(e) => onChange({ ...analysis, prompt: e.target.value })}
+            placeholder={DEFAULT_ANALYSIS_PROMPT}
+            className={`${inputClassName} resize-y`}
+          />
+          <p className="text-xs text-slate-500">The response format is added automatically.</p>
+        </div>
+      </>
+    )}
+
+    <label className="flex items-start gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={analysis.autoAnalyze}
+        onChange={(e) => onChange({ ...analysis, autoAnalyze: e.target.checked })}
+        className="mt-0.5 accent-blue-500"
+      />
+      <span className="space-y-0.5">
+        <span className="block text-sm text-white">Analyze captures automatically</span>
+        <span className="block text-xs text-slate-500">
+          New captures are queued for analysis right away, with retries if the provider is unreachable.
+        </span>
+      </span>
+    </label>
+
+    {analysis.autoAnalyze && (
+      <label className="flex items-start gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={analysis.alertWaitsForAnalysis}
+          onChange={(e) => onChange({ ...analysis, alertWaitsForAnalysis: e.target.checked })}
+          className="mt-0.5 accent-blue-500"
+        />
+        <span className="space-y-0.5">
+          <span className="block text-sm text-white">Include analysis in alerts</span>
+          <span className="block text-xs text-slate-500">
+            Alerts wait up to 20 seconds for the analysis and are sent without it if it is not ready.
+          </span>
+        </span>
+      </label>
+    )}
+  </div>
+);
+
+export default AnalysisProviderSettings;
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ScrollText, ShieldCheck, ShieldAlert, Loader2, Unlock, Lock, KeyRound, Settings, Camera, CameraOff, Trash2, UserX, FileArchive, Archive, ArchiveRestore, Fingerprint, Siren, Users, ChevronDown, ChevronUp } from 'lucide-react';
+import { AuditEvent, AuditEventType, AuditVerification } from '../types';
+import { listAuditEvents, subscribeToAuditLog, verifyAuditLog } from '../services/auditLog';
+import { formatDuration } from '../services/lockoutService';
+
+interface AuditTimelineProps {
+  logKey: CryptoKey | null; // Without it (the decoy vault) the trail is empty and never read
+}
+
+const COLLAPSED_COUNT = 10;
+
+const EVENT_LABELS: Record<AuditEventType, string> = {
+  setup: 'Passcode created',
+  unlock: 'Unlocked',
+  unlock_failed: 'Failed unlock attempt',
+  lock: 'Locked',
+  passcode_changed: 'Passcode changed',
+  passcode_recovered: 'Passcode reset with recovery code',
+  recovery_failed: 'Wrong recovery code',
+  recovery_code_created: 'New recovery code generated',
+  settings_changed: 'Settings changed',
+  camera_denied: 'Camera unavailable',
+  camera_lost: 'Camera disconnected',
+  camera_restored: 'Camera reconnected',
+  logs_deleted: 'Intruder logs deleted',
+  logs_exported: 'Intruder logs exported',
+  vault_wiped: 'Documents wiped',
+  backup_created: 'Encrypted backup downloaded',
+  backup_restored: 'Restored from backup',
+  passkey_enrolled: 'Passkey added',
+  passkey_removed: 'Passkey removed',
+  passkey_policy_changed: 'Passkey policy changed',
+  duress_passcode_set: 'Duress passcode set',
+  duress_passcode_removed: 'Duress passcode removed',
+  profile_created: 'Profile created',
+  profile_updated: 'Profile changed',
+  profile_deleted: 'Profile deleted',
+};
+
+const EVENT_ICONS: Record<AuditEventType, React.ElementType> = {
+  setup: KeyRound,
+  unlock: Unlock,
+  unlock_failed: UserX,
+  lock: Lock,
+  passcode_changed: KeyRound,
+  passcode_recovered: KeyRound,
+  recovery_failed: UserX,
+  recovery_code_created: KeyRound,
+  settings_changed: Settings,
+  camera_denied: CameraOff,
+  camera_lost: CameraOff,
+  camera_restored: Camera,
+  logs_deleted: Trash2,
+  logs_exported: FileArchive,
+  vault_wiped: Trash2,
+  backup_created: Archive,
+  backup_restored: ArchiveRestore,
+  passkey_enrolled: Fingerprint,
+  passkey_removed: Fingerprint,
+  passkey_policy_changed: Fingerprint,
+  duress_passcode_set: Siren,
+  duress_passcode_removed: Siren,
+  profile_created: Users,
+  profile_updated: Users,
+  profile_deleted: Users,
+};
+
+const ALARMING: AuditEventType[] = ['unlock_failed', 'recovery_failed', 'camera_denied', 'camera_lost', 'vault_wiped'];
+
+// Unlocks with the duress passcode are recorded as ordinary unlocks, with the flag in the sealed details
+const isAlarming = (event: AuditEvent) => ALARMING.includes(event.type) || event.details.duress === true;
+
+const describeEvent = ({ details }: AuditEvent): string | null => {
+  const parts: string[] = [];
+  if (typeof details.profile === 'string') parts.push(details.profile);
+  if (typeof details.target === 'string') parts.push(`for ${details.target}`);
+  if (typeof details.role === 'string') parts.push(details.role === 'admin' ? 'Admin' : 'Member');
+  if (details.duress === true) parts.push('UNDER DURESS, decoy vault shown');
+  if (typeof details.attempt === 'number') parts.push(`Attempt #${details.attempt}`);
+  if (typeof details.method === 'string') parts.push(`with ${details.method}`);
+  if (typeof details.requirePasscode === 'boolean') parts.push(details.requirePasscode ? 'passcode and passkey required' : 'either one unlocks');
+  if (typeof details.afterFailures === 'number' && details.afterFailures > 0) parts.push(`after ${details.afterFailures} failed attempt${details.afterFailures === 1 ? '' : 's'}`);
+  if (typeof details.lockedForMs === 'number') parts.push(`keypad locked for ${formatDuration(details.lockedForMs)}`);
+  if (typeof details.mode === 'string') parts.push(details.mode === 'pin' ? 'PIN' : 'Passphrase');
+  if (Array.isArray(details.changed)) parts.push(details.changed.join(', '));
+  if (typeof details.count === 'number') parts.push(`${details.count} log${details.count === 1 ? '' : 's'}`);
+  if (typeof details.format === 'string') parts.push(details.format === 'zip' ? 'ZIP archive' : 'printed report');
+  if (typeof details.reason === 'string') parts.push(details.reason);
+  if (typeof details.error === 'string') parts.push(details.error);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+/**
+ * Every security event, newest first, with the result of checking the hash chain.
+ */
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ logKey }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!logKey) {
+      setEvents([]);
+      setVerification({ checkedAt: Date.now(), entries: 0, issues: [] });
+      return;
+    }
+    setVerifying(true);
+    try {
+      const loaded = await listAuditEvents(logKey);
+      // Keep anything recorded while the log was being read
+      const latest = loaded[0]?.seq ?? 0;
+      setEvents(prev => [...prev.filter(e => e.seq > latest), ...loaded]);
+      setVerification(await verifyAuditLog());
+    } catch (err) {
+      console.error("Failed to load audit log", err);
+    } finally {
+      setVerifying(false);
+    }
+  }, [logKey]);
+
+  useEffect(() => {
+    refresh();
+    if (!logKey) return;
+    // New events arrive already decrypted; only the chain is checked again
+    return subscribeToAuditLog(event => {
+      setEvents(prev => (prev.some(e => e.seq === event.seq) ? prev : [event, ...prev]));
+      verifyAuditLog()
+        .then(setVerification)
+        .catch(err => console.error("Failed to verify audit log", err));
+    });
+  }, [refresh, logKey]);
+
+  const shown = expanded ? events : events.slice(0, COLLAPSED_COUNT);
+  const intact = verification && verification.issues.length === 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-end mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ScrollText className="text-blue-400" size={20} />
+          Audit Trail
+        </h3>
+        <button
+          onClick={refresh}
+          disabled={verifying}
+          className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 disabled:opacity-50"
+        >
+          {verifying && <Loader2 className="animate-spin" size={12} />}
+          Verify chain
+        </button>
+      </div>
+
+      {verification && (
+        <div className={`mb-4 p-3 rounded-lg border text-sm ${intact ? 'bg-green-500/5 border-green-500/20 text-green-400' : 'bg-red-500/10 border-red-500/30 text-red-400'}`}>
+          <div className="flex items-center gap-2 font-medium">
+            {intact ? <ShieldCheck size={16} /> : <ShieldAlert size={16} />}
+            {intact
+              ? `Chain intact · ${verification.entries} entries`
+              : `Tampering detected · ${verification.issues.length} problem${verification.issues.length === 1 ? '' : 's'}`}
+          </div>
+          {!intact && (
+            <ul className="mt-2 space-y-1 text-xs list-disc list-inside">
+              {verification.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+            </ul>
+          )}
+          <p className="mt-1 text-[10px] text-slate-500">Checked {new Date(verification.checkedAt).toLocaleTimeString()}</p>
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-4">No events recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-white/10 ml-2 space-y-3">
+          {shown.map(event => {
+            const Icon = EVENT_ICONS[event.type];
+            const description = describeEvent(event);
+            return (
+              <li key={event.seq} className="ml-5">
+                <span className={`absolute -left-2.5 w-5 h-5 rounded-full flex items-center justify-center ring-4 ring-slate-950 ${isAlarming(event) ? 'bg-red-500/20 text-red-400' : 'bg-slate-800 text-slate-300'}`}>
+                  <Icon size={11} />
+                </span>
+                <div className="flex justify-between items-start gap-2">
+                  <span className="text-sm text-slate-200">{EVENT_LABELS[event.type]}</span>
+                  <span className="text-xs text-slate-500 shrink-0">{new Date(event.timestamp).toLocaleString()}</span>
+                </div>
+                {description && <p className="text-xs text-slate-400">{description}</p>}
+                <p className="text-[10px] font-mono text-slate-600" title={event.hash}>#{event.seq} · {event.hash.slice(0, 12)}</p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {events.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="mt-3 text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1"
+        >
+          {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          {expanded ? 'Show fewer' : `Show all ${events.length} events`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditTimeline;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { TimerReset } from 'lucide-react';
+import { AutoLockPolicy } from '../types';
+
+interface AutoLockSettingsProps {
+  autoLock: AutoLockPolicy;
+  onChange: (autoLock: AutoLockPolicy) => void;
+}
+
+const IDLE_OPTIONS = [0, 1, 2, 5, 10, 15, 30];
+
+const TRIGGERS: { key: 'onHidden' | 'onBlur' | 'onSleep'; label: string; description: string }[] = [
+  { key: 'onHidden', label: 'When the tab is hidden', description: 'Switching tabs, minimizing the window or locking the screen.' },
+  { key: 'onBlur', label: 'When the window loses focus', description: 'Also triggers on file pickers and print dialogs opened from the vault.' },
+  { key: 'onSleep', label: 'After the device sleeps', description: 'Detected when the page resumes after its timers were paused for minutes.' },
+];
+
+const AutoLockSettings: React.FC<AutoLockSettingsProps> = ({ autoLock, onChange }) => (
+  <div className="space-y-3">
+    <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+      <TimerReset size={16} />
+      Auto-Lock
+    </label>
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400">After inactivity</span>
+        <select
+          value={autoLock.idleMinutes}
+          onChange={(e) => onChange({ ...autoLock, idleMinutes: parseInt(e.target.value) })}
+          className="w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          {IDLE_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} min`}</option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400 flex justify-between">
+          <span>Warning</span>
+          <span className="text-blue-400 font-bold">{autoLock.warningSeconds}s</span>
+        </span>
+        <input
+          type="range"
+          min="5"
+          max="60"
+          step="5"
+          value={autoLock.warningSeconds}
+          disabled={autoLock.idleMinutes === 0}
+          onChange={(e) => onChange({ ...autoLock, warningSeconds: parseInt(e.target.value) })}
+          className="w-full h-2 mt-3 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50"
+        />
+      </div>
+    </div>
+
+    {TRIGGERS.map(({ key, label, description }) => (
+      <label key={key} className="flex items-start gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoLock[key]}
+          onChange={(e) => onChange({ ...autoLock, [key]: e.target.checked })}
+          className="mt-0.5 accent-blue-500"
+        />
+        <span className="space-y-0.5">
+          <span className="text-sm text-white block">{label}</span>
+          <span className="block text-xs text-slate-500">{description}</span>
+        </span>
+      </label>
+    ))}
+  </div>
+);
+
+export default AutoLockSettings;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Archive, Loader2, CheckCircle2 } from 'lucide-react';
+import { backupFileName, createBackup } from '../services/backupService';
+import { MIN_PASSPHRASE_LENGTH } from '../services/credentialService';
+import { downloadBlob } from '../services/mediaUtils';
+
+interface BackupSettingsProps {
+  decoy?: boolean; // The duress decoy: an empty backup
+  onBackupCreated: () => void;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50";
+
+const BackupSettings: React.FC<BackupSettingsProps> = ({ decoy = false, onBackupCreated }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleBackup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (passphrase !== confirmPassphrase) return setError('Passphrases do not match.');
+
+    setBusy(true);
+    setError(null);
+    setDone(false);
+    try {
+      downloadBlob(await createBackup(passphrase, decoy), backupFileName());
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setDone(true);
+      onBackupCreated();
+    } catch (err) {
+      console.error("Failed to create backup", err);
+      setError('Could not create the backup.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleBackup} className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Archive size={16} />
+        Encrypted Backup
+      </label>
+      <p className="text-xs text-slate-500">
+        Downloads your passcode, settings, documents and intruder logs, encrypted with a separate backup passphrase.
+        Restore it on another browser from the setup screen; it unlocks with your current passcode.
+      </p>
+      <input
+        type="password"
+        autoComplete="new-password"
+        value={passphrase}
+        disabled={busy}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Backup passphrase"
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        autoComplete="new-password"
+        value={confirmPassphrase}
+        disabled={busy}
+        onChange={(e) => setConfirmPassphrase(e.target.value)}
+        placeholder="Confirm backup passphrase"
+        className={inputClassName}
+      />
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {done && (
+        <p className="text-xs text-green-400 flex items-center gap-1">
+          <CheckCircle2 size={12} /> Backup downloaded. Keep the passphrase somewhere safe; it cannot be recovered.
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={busy || !passphrase}
+        className="w-full bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-white flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+      >
+        {busy && <Loader2 className="animate-spin" size={14} />}
+        Download encrypted backup
+      </button>
+    </form>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Video, CameraOff, Loader2 } from 'lucide-react';
+import { CaptureResolution, CaptureSettings } from '../types';
+import {
+  CAPTURE_RESOLUTIONS,
+  CameraInfo,
+  MAX_JPEG_QUALITY,
+  MIN_JPEG_QUALITY,
+  describeCameraError,
+  listCameras,
+  openCamera,
+  stopStream,
+} from '../services/cameraService';
+import { dataUrlToBlob, formatBytes } from '../services/mediaUtils';
+
+interface CameraSettingsProps {
+  capture: CaptureSettings;
+  onChange: (capture: CaptureSettings) => void;
+}
+
+const selectClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all";
+
+/**
+ * Picks the camera and image quality used while LOCKED, with a live preview of
+ * exactly what the chosen settings produce.
+ */
+const CameraSettings: React.FC<CameraSettingsProps> = ({ capture, onChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameras, setCameras] = useState<CameraInfo[]>([]);
+  const [starting, setStarting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actualSize, setActualSize] = useState<string | null>(null);
+  const [stillBytes, setStillBytes] = useState<number | null>(null);
+
+  const refreshCameras = useCallback(() => {
+    listCameras().then(setCameras).catch(e => console.error("Failed to list cameras", e));
+  }, []);
+
+  // The preview opens its own stream with the chosen camera and resolution
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setStarting(true);
+    setError(null);
+    setActualSize(null);
+
+    openCamera(capture)
+      .then(opened => {
+        if (cancelled) return stopStream(opened);
+        stream = opened;
+        if (videoRef.current) videoRef.current.srcObject = opened;
+        const { width, height } = opened.getVideoTracks()[0]?.getSettings() ?? {};
+        if (width && height) setActualSize(`${width}×${height}`);
+      })
+      .catch(err => {
+        if (!cancelled) setError(describeCameraError(err));
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setStarting(false);
+        refreshCameras(); // Labels only show up once permission is granted
+      });
+
+    return () => {
+      cancelled = true;
+      if (stream) stopStream(stream);
+    };
+  }, [capture.deviceId, capture.resolution, refreshCameras]);
+
+  useEffect(() => {
+    navigator.mediaDevices?.addEventListener('devicechange', refreshCameras);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshCameras);
+  }, [refreshCameras]);
+
+  // Encodes the current preview frame so the size of a photo at this quality is known
+  const measureStill = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    setStillBytes(dataUrlToBlob(canvas.toDataURL('image/jpeg', capture.jpegQuality)).size);
+  }, [capture.jpegQuality]);
+
+  useEffect(measureStill, [measureStill]);
+
+  const savedCameraMissing = capture.deviceId !== '' && !starting && !cameras.some(c => c.deviceId === capture.deviceId);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Video size={16} />
+        Camera
+      </label>
+
+      <div className="relative aspect-video bg-black rounded-lg overflow-hidden border border-white/10">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedData={measureStill}
+          className={`w-full h-full object-cover ${error ? 'hidden' : ''}`}
+        />
+        {starting && (
+          <div className="absolute inset-0 flex items-center justify-center text-slate-500">
+            <Loader2 className="animate-spin" size={20} />
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center">
+            <CameraOff size={20} className="text-red-400" />
+            <span className="text-xs text-red-300">{error}</span>
+          </div>
+        )}
+        {actualSize && (
+          <span className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-slate-300">
+            {actualSize}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Device</span>
+          <select
+            value={capture.deviceId}
+            onChange={(e) => onChange({ ...capture, deviceId: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Front camera (default)</option>
+            {cameras.map(camera => (
+              <option key={camera.deviceId} value={camera.deviceId}>{camera.label}</option>
+            ))}
+            {savedCameraMissing && <option value={capture.deviceId}>Saved camera (not connected)</option>}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Resolution</span>
+          <select
+            value={capture.resolution}
+            onChange={(e) => onChange({ ...capture, resolution: e.target.value as CaptureResolution })}
+            className={selectClassName}
+          >
+            {(Object.keys(CAPTURE_RESOLUTIONS) as CaptureResolution[]).map(resolution => (
+              <option key={resolution} value={resolution}>{CAPTURE_RESOLUTIONS[resolution].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs text-slate-400 flex justify-between">
+          <span>Photo quality</span>
+          <span className="text-blue-400 font-bold">
+            {Math.round(capture.jpegQuality * 100)}%{stillBytes !== null && ` · ~${formatBytes(stillBytes)} per photo`}
+          </span>
+        </span>
+        <input
+          type="range"
+          min={MIN_JPEG_QUALITY}
+          max={MAX_JPEG_QUALITY}
+          step="0.05"
+          value={capture.jpegQuality}
+          onChange={(e) => onChange({ ...capture, jpegQuality: parseFloat(e.target.value) })}
+          className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        />
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {savedCameraMissing
+          ? 'The saved camera is not connected, so another camera is used until it is back.'
+          : 'Cameras may deliver a lower resolution than requested. Higher settings give clearer faces but fill log storage faster.'}
+      </p>
+    </div>
+  );
+};
+
+export default CameraSettings;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Aperture, ScanFace } from 'lucide-react';
+import { CaptureMode, CaptureSettings } from '../types';
+
+interface CaptureModeSettingsProps {
+  capture: CaptureSettings;
+  onChange: (capture: CaptureSettings) => void;
+}
+
+const MODES: { mode: CaptureMode; label: string; description: string }[] = [
+  { mode: 'single', label: 'Single', description: 'One photo at the moment of the failed attempt.' },
+  { mode: 'burst', label: 'Burst', description: 'Several photos over a short window; the sharpest is used for alerts and analysis.' },
+  { mode: 'video', label: 'Clip', description: 'A photo plus a short video clip. Clips use noticeably more storage.' },
+];
+
+const CaptureModeSettings: React.FC<CaptureModeSettingsProps> = ({ capture, onChange }) => {
+  const active = MODES.find(m => m.mode === capture.mode) ?? MODES[0];
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Aperture size={16} />
+        Capture Mode
+      </label>
+      <div className="grid grid-cols-3 gap-1 p-1 bg-slate-800 rounded-lg">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...capture, mode })}
+            className={`py-1.5 text-sm rounded-md transition-colors ${capture.mode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">{active.description}</p>
+
+      {capture.mode === 'burst' && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400 flex justify-between">
+              <span>Frames</span>
+              <span className="text-blue-400 font-bold">{capture.burstFrames}</span>
+            </span>
+            <input
+              type="range"
+              min="2"
+              max="10"
+              value={capture.burstFrames}
+              onChange={(e) => onChange({ ...capture, burstFrames: parseInt(e.target.value) })}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400 flex justify-between">
+              <span>Over</span>
+              <span className="text-blue-400 font-bold">{(capture.burstDurationMs / 1000).toFixed(1)}s</span>
+            </span>
+            <input
+              type="range"
+              min="500"
+              max="5000"
+              step="500"
+              value={capture.burstDurationMs}
+              onChange={(e) => onChange({ ...capture, burstDurationMs: parseInt(e.target.value) })}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        </div>
+      )}
+
+      {capture.mode === 'video' && (
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400 flex justify-between">
+            <span>Clip length</span>
+            <span className="text-blue-400 font-bold">{capture.clipSeconds}s</span>
+          </span>
+          <input
+            type="range"
+            min="3"
+            max="5"
+            value={capture.clipSeconds}
+            onChange={(e) => onChange({ ...capture, clipSeconds: parseInt(e.target.value) })}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+      )}
+
+      <label className="flex items-start gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={capture.requireFace}
+          onChange={(e) => onChange({ ...capture, requireFace: e.target.checked })}
+          className="mt-0.5 accent-blue-500"
+        />
+        <span className="space-y-0.5">
+          <span className="text-sm text-white flex items-center gap-1.5">
+            <ScanFace size={14} />
+            Only keep captures with a face
+          </span>
+          <span className="block text-xs text-slate-500">
+            Faces are detected on this device. Captures where no one is in frame after a few tries are discarded and send no alert.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default CaptureModeSettings;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { BellRing, Clock, AlertTriangle, RefreshCw } from 'lucide-react';
+import { AlertChannelType, AlertDelivery } from '../types';
+import { CHANNEL_LABELS } from '../services/alertService';
+
+interface DeliveryStatusProps {
+  deliveries: AlertDelivery[];
+  onResend: (channel: AlertChannelType) => void;
+}
+
+const DeliveryStatus: React.FC<DeliveryStatusProps> = ({ deliveries, onResend }) => (
+  <>
+    {deliveries.map(delivery => {
+      const label = CHANNEL_LABELS[delivery.channel];
+      const time = new Date(delivery.updatedAt).toLocaleString();
+
+      if (delivery.status === 'sent') {
+        return (
+          <span key={delivery.channel} title={`Delivered ${time}`} className="text-xs bg-blue-900/30 text-blue-400 px-2 py-1 rounded flex items-center gap-1">
+            <BellRing size={10} /> {label} sent
+          </span>
+        );
+      }
+
+      if (delivery.status === 'pending') {
+        return (
+          <span
+            key={delivery.channel}
+            title={delivery.lastError ? `Last error: ${delivery.lastError} (${time})` : 'Waiting to be sent'}
+            className="text-xs bg-amber-900/30 text-amber-400 px-2 py-1 rounded flex items-center gap-1"
+          >
+            <Clock size={10} /> {label} {delivery.attempts > 0 ? `retrying (${delivery.attempts})` : 'pending'}
+          </span>
+        );
+      }
+
+      return (
+        <span
+          key={delivery.channel}
+          title={`${delivery.lastError ?? 'Delivery failed'} after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'} (${time})`}
+          className="text-xs bg-red-900/30 text-red-400 px-2 py-1 rounded flex items-center gap-1"
+        >
+          <AlertTriangle size={10} /> {label} failed
+          <button onClick={() => onResend(delivery.channel)} className="ml-1 hover:text-white" aria-label={`Resend ${label} alert`}>
+            <RefreshCw size={10} />
+          </button>
+        </span>
+      );
+    })}
+  </>
+);
+
+export default DeliveryStatus;
@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Lock, Upload, Download, Eye, Pencil, Trash2, Loader2, X, FileText, FileImage, Check } from 'lucide-react';
+import { VaultItem } from '../types';
+import { VaultStore } from '../services/vaultService';
+import { downloadBlob, formatBytes } from '../services/mediaUtils';
+import { pauseAutoLockUntilReturn } from '../services/autoLockService';
+
+interface DocumentVaultProps {
+  store: VaultStore;
+}
+
+interface Preview {
+  item: VaultItem;
+  url: string;
+  text?: string;
+}
+
+const DocumentVault: React.FC<DocumentVaultProps> = ({ store }) => {
+  const [items, setItems] = useState<VaultItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const resumeAutoLockRef = useRef<(() => void) | null>(null);
+
+  const resumeAutoLock = () => {
+    resumeAutoLockRef.current?.();
+    resumeAutoLockRef.current = null;
+  };
+
+  // The system file picker blurs the page, and hides it on mobile, without anyone leaving
+  const chooseFiles = () => {
+    resumeAutoLock();
+    resumeAutoLockRef.current = pauseAutoLockUntilReturn();
+    fileInputRef.current?.click();
+  };
+
+  useEffect(() => {
+    const input = fileInputRef.current;
+    input?.addEventListener('cancel', resumeAutoLock);
+    return () => {
+      input?.removeEventListener('cancel', resumeAutoLock);
+      resumeAutoLock();
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    store.list()
+      .then(result => { if (!cancelled) setItems(result); })
+      .catch(err => {
+        console.error("Failed to load vault", err);
+        if (!cancelled) setError('Could not decrypt vault contents.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  // Release object URLs when the preview closes
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    resumeAutoLock();
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        const item = await store.add(file);
+        setItems(prev => [item, ...prev]);
+      }
+    } catch (err) {
+      console.error("Failed to store file", err);
+      setError('Upload failed. The browser may be out of storage space.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePreview = async (item: VaultItem) => {
+    setBusyId(item.id);
+    try {
+      const blob = await store.read(item);
+      const text = item.mimeType.startsWith('text/') || item.mimeType === 'application/json'
+        ? await blob.text()
+        : undefined;
+      setPreview({ item, url: URL.createObjectURL(blob), text });
+    } catch (err) {
+      console.error("Failed to decrypt file", err);
+      setError(`Could not decrypt ${item.name}.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownload = async (item: VaultItem) => {
+    setBusyId(item.id);
+    try {
+      const blob = await store.read(item);
+      downloadBlob(blob, item.name);
+    } catch (err) {
+      console.error("Failed to decrypt file", err);
+      setError(`Could not decrypt ${item.name}.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRename = async (item: VaultItem) => {
+    const name = renameValue.trim();
+    setRenamingId(null);
+    if (!name || name === item.name) return;
+
+    setBusyId(item.id);
+    try {
+      const updated = await store.rename(item, name);
+      setItems(prev => prev.map(i => (i.id === item.id ? updated : i)));
+    } catch (err) {
+      console.error("Failed to rename file", err);
+      setError(`Could not rename ${item.name}.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (item: VaultItem) => {
+    if (!confirm(`Permanently delete "${item.name}" from the vault?`)) return;
+
+    setBusyId(item.id);
+    try {
+      await store.remove(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (err) {
+      console.error("Failed to delete file", err);
+      setError(`Could not delete ${item.name}.`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderPreviewBody = ({ item, url, text }: Preview) => {
+    if (item.mimeType.startsWith('image/')) {
+      return <img src={url} alt={item.name} className="max-h-[70vh] mx-auto rounded" />;
+    }
+    if (item.mimeType.startsWith('video/')) {
+      return <video src={url} controls className="max-h-[70vh] w-full rounded" />;
+    }
+    if (item.mimeType.startsWith('audio/')) {
+      return <audio src={url} controls className="w-full" />;
+    }
+    if (item.mimeType === 'application/pdf') {
+      return <iframe src={url} title={item.name} className="w-full h-[70vh] rounded bg-white" />;
+    }
+    if (text !== undefined) {
+      return <pre className="max-h-[70vh] overflow-auto text-xs text-slate-300 whitespace-pre-wrap bg-slate-950 p-4 rounded">{text}</pre>;
+    }
+    return <p className="text-slate-400 text-sm text-center py-12">No preview available for this file type. Download it to open.</p>;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Secured Documents</h3>
+        <button
+          onClick={chooseFiles}
+          disabled={uploading}
+          className="flex items-center gap-2 text-sm bg-blue-600 hover:bg-blue-500 text-white py-1.5 px-3 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {uploading ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />}
+          {uploading ? 'Encrypting...' : 'Upload'}
+        </button>
+        <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleUpload} />
+      </div>
+
+      {error && (
+        <div className="mb-4 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2 flex justify-between items-center">
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-white">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12 text-slate-500">
+          <Loader2 className="animate-spin" size={24} />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12 border border-dashed border-white/10 rounded-xl bg-slate-900/50">
+          <Lock className="w-12 h-12 mx-auto text-slate-600 mb-2" />
+          <p className="text-slate-400">No documents yet. Uploaded files are encrypted on this device.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {items.map(item => (
+            <div key={item.id} className="bg-slate-800 rounded-lg p-4 border border-white/5 hover:border-blue-500/50 transition-colors flex flex-col justify-between gap-3">
+              <div className="flex items-start gap-3 min-w-0">
+                <div className="w-10 h-10 bg-slate-700 rounded-full flex items-center justify-center shrink-0">
+                  {item.mimeType.startsWith('image/')
+                    ? <FileImage className="w-5 h-5 text-blue-400" />
+                    : <FileText className="w-5 h-5 text-blue-400" />}
+                </div>
+                <div className="min-w-0 flex-1">
+                  {renamingId === item.id ? (
+                    <form
+                      onSubmit={(e) => { e.preventDefault(); handleRename(item); }}
+                      className="flex items-center gap-1"
+                    >
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Escape') setRenamingId(null); }}
+                        className="w-full bg-slate-900 border border-white/10 rounded px-2 py-1 text-sm text-white outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button type="submit" className="text-green-400 hover:text-green-300">
+                        <Check size={16} />
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="text-sm text-white truncate" title={item.name}>{item.name}</div>
+                  )}
+                  <div className="text-xs text-slate-500">{formatBytes(item.size)} · {new Date(item.updatedAt).toLocaleDateString()}</div>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-end gap-1 text-slate-400">
+                {busyId === item.id ? (
+                  <Loader2 className="animate-spin" size={16} />
+                ) : (
+                  <>
+                    <button onClick={() => handlePreview(item)} className="p-1.5 rounded hover:bg-white/10 hover:text-white" aria-label="Preview">
+                      <Eye size={16} />
+                    </button>
+                    <button onClick={() => handleDownload(item)} className="p-1.5 rounded hover:bg-white/10 hover:text-white" aria-label="Download">
+                      <Download size={16} />
+                    </button>
+                    <button
+                      onClick={() => { setRenamingId(item.id); setRenameValue(item.name); }}
+                      className="p-1.5 rounded hover:bg-white/10 hover:text-white"
+                      aria-label="Rename"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button onClick={() => handleDelete(item)} className="p-1.5 rounded hover:bg-red-500/20 hover:text-red-400" aria-label="Delete">
+                      <Trash2 size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* PREVIEW MODAL */}
+      {preview && (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-slate-900 border border-white/10 w-full max-w-3xl rounded-2xl overflow-hidden shadow-2xl">
+            <div className="p-4 border-b border-white/10 flex justify-between items-center gap-4">
+              <h3 className="font-semibold truncate">{preview.item.name}</h3>
+              <button onClick={() => setPreview(null)} className="text-slate-400 hover:text-white">
+                <X size={24} />
+              </button>
+            </div>
+            <div className="p-4">
+              {renderPreviewBody(preview)}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentVault;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Siren, Loader2, Trash2 } from 'lucide-react';
+import { PasscodePolicy } from '../types';
+import { removeDuressPasscode, setDuressPasscode, validateDuressPasscode } from '../services/duressService';
+
+interface DuressSettingsProps {
+  decoy?: boolean; // Inside the duress decoy: nothing is stored
+  policy: PasscodePolicy;
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50";
+
+const DuressSettings: React.FC<DuressSettingsProps> = ({ decoy = false, policy, enabled, onChange }) => {
+  const [value, setValue] = useState('');
+  const [confirmValue, setConfirmValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const isPin = policy.mode === 'pin';
+  const name = isPin ? 'PIN' : 'passphrase';
+  const clean = (input: string) => (isPin ? input.replace(/\D/g, '') : input);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (value !== confirmValue) return setError(`Duress ${name}s do not match.`);
+
+    setBusy(true);
+    setError(null);
+    try {
+      const validationError = await validateDuressPasscode(value, policy, decoy);
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+      if (!decoy) await setDuressPasscode(value, policy);
+      setValue('');
+      setConfirmValue('');
+      onChange(true);
+    } catch (err) {
+      console.error("Failed to set duress passcode", err);
+      setError(`Could not set the duress ${name}.`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!decoy) removeDuressPasscode();
+    onChange(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Siren size={16} />
+        Duress {isPin ? 'PIN' : 'Passphrase'}
+      </label>
+      <p className="text-xs text-slate-500">
+        If someone forces you to unlock, enter this instead of your {name}. It looks like a normal unlock but opens a
+        decoy vault with no logs and harmless documents, takes a photo, and silently sends an urgent alert to your
+        webhook and email channels.
+      </p>
+
+      {enabled ? (
+        <div className="flex items-center justify-between p-3 bg-slate-800/50 rounded-lg border border-white/5">
+          <span className="text-sm text-white">Duress {name} is set</span>
+          <button
+            onClick={handleRemove}
+            className="text-xs text-red-300 hover:text-red-200 flex items-center gap-1"
+          >
+            <Trash2 size={12} />
+            Remove
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3">
+          <input
+            type="password"
+            inputMode={isPin ? 'numeric' : 'text'}
+            autoComplete="new-password"
+            value={value}
+            disabled={busy}
+            onChange={(e) => setValue(clean(e.target.value))}
+            maxLength={isPin ? policy.length : undefined}
+            placeholder={isPin ? `Duress PIN (${policy.length} digits)` : 'Duress passphrase'}
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            inputMode={isPin ? 'numeric' : 'text'}
+            autoComplete="new-password"
+            value={confirmValue}
+            disabled={busy}
+            onChange={(e) => setConfirmValue(clean(e.target.value))}
+            maxLength={isPin ? policy.length : undefined}
+            placeholder={`Confirm duress ${name}`}
+            className={inputClassName}
+          />
+          <button
+            type="submit"
+            disabled={busy || !value}
+            className="w-full bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-white flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {busy && <Loader2 className="animate-spin" size={14} />}
+            Set duress {name}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default DuressSettings;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { FileArchive, Printer, Loader2, X } from 'lucide-react';
+import { IntruderLog, Suspect } from '../types';
+import { buildIncidentReport, evidenceFileName, exportEvidenceArchive, printIncidentReport } from '../services/evidenceExport';
+import { downloadBlob } from '../services/mediaUtils';
+
+interface EvidenceExportBarProps {
+  logs: IntruderLog[]; // The selected logs, or everything currently shown
+  selected: boolean;
+  suspects: Suspect[];
+  logKey: CryptoKey;
+  includeAudit: boolean; // Only admins may export the audit trail
+  onClearSelection: () => void;
+  onExported: (format: 'zip' | 'report', count: number) => void;
+}
+
+const EvidenceExportBar: React.FC<EvidenceExportBarProps> = ({ logs, selected, suspects, logKey, includeAudit, onClearSelection, onExported }) => {
+  const [busy, setBusy] = useState<'zip' | 'report' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+
+  const run = async (format: 'zip' | 'report') => {
+    setBusy(format);
+    setError(null);
+    try {
+      if (format === 'zip') {
+        const { archive, fingerprint } = await exportEvidenceArchive(logs, suspects, logKey, includeAudit);
+        downloadBlob(archive, evidenceFileName());
+        setFingerprint(fingerprint);
+      } else if (!printIncidentReport(await buildIncidentReport(logs, suspects, logKey))) {
+        setError('Allow pop-ups for this site to print the report.');
+        return;
+      }
+      onExported(format, logs.length);
+    } catch (err) {
+      console.error("Failed to export logs", err);
+      setError('Export failed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const count = selected ? `${logs.length} selected` : `${logs.length} log${logs.length === 1 ? '' : 's'} shown`;
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-slate-400 mr-auto flex items-center gap-1">
+          {count}
+          {selected && (
+            <button onClick={onClearSelection} className="text-slate-500 hover:text-white" aria-label="Clear selection">
+              <X size={14} />
+            </button>
+          )}
+        </span>
+        <button
+          onClick={() => run('zip')}
+          disabled={busy !== null || logs.length === 0}
+          className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg py-1.5 px-3 transition-colors disabled:opacity-50"
+        >
+          {busy === 'zip' ? <Loader2 className="animate-spin" size={14} /> : <FileArchive size={14} />}
+          Export ZIP
+        </button>
+        <button
+          onClick={() => run('report')}
+          disabled={busy !== null || logs.length === 0}
+          className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg py-1.5 px-3 transition-colors disabled:opacity-50"
+        >
+          {busy === 'report' ? <Loader2 className="animate-spin" size={14} /> : <Printer size={14} />}
+          Print report
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      {fingerprint && !error && (
+        <p className="text-xs text-slate-500 mt-1">
+          Manifest signed by this device's key. Fingerprint:{' '}
+          <span className="font-mono text-slate-400 break-all">{fingerprint.match(/.{4}/g)?.join(' ')}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceExportBar;
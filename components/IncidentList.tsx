@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Loader2, ShieldAlert, Users } from 'lucide-react';
+import { AnalysisSettings, Incident, IncidentSummary, ThreatLevel } from '../types';
+import { listIncidentReports, summarizeIncident } from '../services/incidentService';
+import { PROVIDER_LABELS } from '../services/analysisService';
+import { THREAT_LEVEL_LABELS } from '../services/threatAnalysis';
+import { formatDuration } from '../services/lockoutService';
+import LogMedia from './LogMedia';
+
+interface IncidentListProps {
+  incidents: Incident[];
+  logKey: CryptoKey;
+  analysis: AnalysisSettings;
+}
+
+const MAX_THUMBNAILS = 6;
+
+const THREAT_LEVEL_STYLES: Record<ThreatLevel, string> = {
+  1: 'bg-green-500/10 text-green-400',
+  2: 'bg-lime-500/10 text-lime-400',
+  3: 'bg-yellow-500/10 text-yellow-400',
+  4: 'bg-orange-500/10 text-orange-400',
+  5: 'bg-red-500/10 text-red-400',
+};
+
+const IncidentList: React.FC<IncidentListProps> = ({ incidents, logKey, analysis }) => {
+  const [reports, setReports] = useState<Record<string, IncidentSummary>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    listIncidentReports(logKey)
+      .then(setReports)
+      .catch(err => console.error("Failed to load incident reports", err));
+  }, [logKey]);
+
+  const handleSummarize = async (incident: Incident) => {
+    setBusyId(incident.id);
+    setErrors(prev => ({ ...prev, [incident.id]: '' }));
+    try {
+      const report = await summarizeIncident(analysis, incident, logKey);
+      setReports(prev => ({ ...prev, [incident.id]: report }));
+    } catch (err) {
+      console.error("Failed to summarize incident", err);
+      setErrors(prev => ({ ...prev, [incident.id]: err instanceof Error ? err.message : 'Incident summary failed.' }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (incidents.length === 0) {
+    return <p className="text-sm text-slate-500 text-center py-8">No incidents match.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {incidents.map(incident => {
+        const report = reports[incident.id];
+        const duration = incident.endedAt - incident.startedAt;
+        return (
+          <div key={incident.id} className="bg-slate-900 border border-white/10 rounded-xl p-4 space-y-3">
+            <div className="flex justify-between items-start gap-2">
+              <h4 className="font-medium text-red-400 flex items-center gap-2">
+                <ShieldAlert size={16} />
+                {incident.logs.length} attempt{incident.logs.length === 1 ? '' : 's'}
+                {duration > 0 && <span className="text-slate-500 font-normal text-sm">over {formatDuration(duration)}</span>}
+              </h4>
+              <span className="text-xs text-slate-500">{new Date(incident.startedAt).toLocaleString()}</span>
+            </div>
+
+            <div className="flex gap-1.5 overflow-x-auto">
+              {incident.logs.slice(0, MAX_THUMBNAILS).map(log => (
+                <LogMedia
+                  key={log.id}
+                  mediaId={log.faceCropId ?? log.imageId}
+                  logKey={logKey}
+                  alt={`Attempt #${log.attemptNumber}`}
+                  className="w-14 h-14 shrink-0 rounded object-cover bg-black"
+                />
+              ))}
+              {incident.logs.length > MAX_THUMBNAILS && (
+                <div className="w-14 h-14 shrink-0 rounded bg-slate-800 flex items-center justify-center text-xs text-slate-400">
+                  +{incident.logs.length - MAX_THUMBNAILS}
+                </div>
+              )}
+            </div>
+
+            {report ? (
+              <div className="bg-slate-800/50 rounded p-3 text-sm text-slate-300 border-l-2 border-purple-500 space-y-2">
+                <p className="text-xs text-purple-400 font-bold uppercase">
+                  {report.source ? PROVIDER_LABELS[report.source.provider] : 'AI'} Incident Report
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded ${THREAT_LEVEL_STYLES[report.threatLevel]}`}>
+                    Threat {report.threatLevel}/5 · {THREAT_LEVEL_LABELS[report.threatLevel]}
+                  </span>
+                  <span className="text-xs bg-slate-700/60 text-slate-300 px-2 py-0.5 rounded flex items-center gap-1">
+                    <Users size={12} /> {report.distinctPeople} {report.distinctPeople === 1 ? 'person' : 'people'}
+                  </span>
+                </div>
+                <p>{report.narrative}</p>
+              </div>
+            ) : (
+              errors[incident.id] && <p className="text-sm text-red-400">{errors[incident.id]}</p>
+            )}
+
+            <button
+              onClick={() => handleSummarize(incident)}
+              disabled={busyId !== null}
+              className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white text-sm py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busyId === incident.id ? (
+                <><Loader2 className="animate-spin" size={16} /> Summarizing...</>
+              ) : (
+                <><FileText size={16} /> {report ? 'Regenerate Report' : 'Generate Incident Report'}</>
+              )}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IncidentList;
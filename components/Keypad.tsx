@@ -1,20 +1,36 @@
 import React from 'react';
-import { Delete } from 'lucide-react';
+import { Delete, CornerDownLeft } from 'lucide-react';
 
 interface KeypadProps {
   onKeyPress: (key: string) => void;
   onDelete: () => void;
+  onSubmit?: () => void; // Shows an enter key in the bottom-left slot when provided
+  submitDisabled?: boolean; // The entry is too short to submit yet
   disabled?: boolean;
 }
 
-const Keypad: React.FC<KeypadProps> = ({ onKeyPress, onDelete, disabled = false }) => {
-  const keys = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'DEL'];
+const Keypad: React.FC<KeypadProps> = ({ onKeyPress, onDelete, onSubmit, submitDisabled = false, disabled = false }) => {
+  const keys = ['1', '2', '3', '4', '5', '6', '7', '8', '9', onSubmit ? 'OK' : '', '0', 'DEL'];
 
   return (
     <div className="grid grid-cols-3 gap-6 max-w-[280px] mx-auto mt-8">
       {keys.map((k, i) => {
         if (k === '') return <div key={`empty-${i}`}></div>;
         
+        if (k === 'OK') {
+          return (
+            <button
+              key="ok"
+              onClick={onSubmit}
+              disabled={disabled || submitDisabled}
+              className="flex items-center justify-center w-16 h-16 rounded-full hover:bg-white/10 active:bg-white/20 transition-colors text-white focus:outline-none disabled:opacity-50"
+              aria-label="Submit"
+            >
+              <CornerDownLeft size={24} />
+            </button>
+          );
+        }
+
         if (k === 'DEL') {
           return (
             <button
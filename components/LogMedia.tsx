@@ -0,0 +1,43 @@
+import React, { useState, useEffect } from 'react';
+import { MediaKind } from '../types';
+import { getLogMedia } from '../services/logRepository';
+
+interface LogMediaProps {
+  mediaId: string;
+  kind?: MediaKind;
+  logKey: CryptoKey;
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Loads and decrypts a log photo or clip on demand and exposes it as an object URL.
+ */
+const LogMedia: React.FC<LogMediaProps> = ({ mediaId, kind = 'image', logKey, alt, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+
+    getLogMedia(mediaId, logKey)
+      .then(blob => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error("Failed to load log media", err));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [mediaId, logKey]);
+
+  if (!url) return <div className={`${className ?? ''} bg-slate-800 animate-pulse`} />;
+  if (kind === 'video') return <video src={url} controls playsInline aria-label={alt} className={className} />;
+  return <img src={url} alt={alt} className={className} />;
+};
+
+export default LogMedia;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Film, X } from 'lucide-react';
+import { IntruderMedia } from '../types';
+import LogMedia from './LogMedia';
+
+interface LogMediaStripProps {
+  media: IntruderMedia[];
+  primaryId: string;
+  faceCropId?: string;
+  logKey: CryptoKey;
+}
+
+/**
+ * Thumbnails of every burst frame, face crop and clip in a log, opening full size on click.
+ */
+const LogMediaStrip: React.FC<LogMediaStripProps> = ({ media, primaryId, faceCropId, logKey }) => {
+  const [viewing, setViewing] = useState<IntruderMedia | null>(null);
+  const ordered = [...media].sort((a, b) => a.capturedAt - b.capturedAt);
+
+  return (
+    <>
+      <div className="flex gap-1.5 overflow-x-auto py-1">
+        {ordered.map((item, index) => (
+          <button
+            key={item.id}
+            onClick={() => setViewing(item)}
+            className={`relative w-12 h-12 shrink-0 flex items-center justify-center rounded overflow-hidden bg-black border ${item.id === primaryId ? 'border-blue-500' : 'border-white/10 hover:border-white/30'}`}
+            aria-label={item.kind === 'video' ? 'Play clip' : `View frame ${index + 1}`}
+          >
+            {item.kind === 'video' ? (
+              <Film className="w-5 h-5 text-slate-400" />
+            ) : (
+              <LogMedia mediaId={item.id} logKey={logKey} alt={`Frame ${index + 1}`} className="w-full h-full object-cover" />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {viewing && (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-slate-900 border border-white/10 w-full max-w-2xl rounded-2xl overflow-hidden shadow-2xl">
+            <div className="p-4 border-b border-white/10 flex justify-between items-center gap-4">
+              <h3 className="font-semibold">
+                {viewing.kind === 'video'
+                  ? 'Intruder Clip'
+                  : viewing.id === faceCropId ? 'Face Crop' : viewing.id === primaryId ? 'Primary Frame' : 'Burst Frame'}
+              </h3>
+              <button onClick={() => setViewing(null)} className="text-slate-400 hover:text-white">
+                <X size={24} />
+              </button>
+            </div>
+            <div className="p-4">
+              <LogMedia
+                mediaId={viewing.id}
+                kind={viewing.kind}
+                logKey={logKey}
+                alt="Intruder"
+                className="max-h-[70vh] w-full object-contain rounded bg-black"
+              />
+              <p className="text-xs text-slate-500 mt-2">{new Date(viewing.capturedAt).toLocaleTimeString()}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LogMediaStrip;
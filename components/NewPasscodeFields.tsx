@@ -0,0 +1,69 @@
+import React from 'react';
+import { PasscodeMode } from '../types';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH, MIN_PASSPHRASE_LENGTH } from '../services/credentialService';
+
+interface NewPasscodeFieldsProps {
+  mode: PasscodeMode;
+  onModeChange: (mode: PasscodeMode) => void;
+  value: string;
+  onChange: (value: string) => void;
+  confirmValue: string;
+  onConfirmChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50";
+
+const NewPasscodeFields: React.FC<NewPasscodeFieldsProps> = ({
+  mode,
+  onModeChange,
+  value,
+  onChange,
+  confirmValue,
+  onConfirmChange,
+  disabled = false,
+}) => {
+  const isPin = mode === 'pin';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex bg-slate-800 rounded-lg p-1 w-fit">
+        {(['pin', 'passphrase'] as PasscodeMode[]).map(m => (
+          <button
+            key={m}
+            type="button"
+            disabled={disabled}
+            onClick={() => onModeChange(m)}
+            className={`px-3 py-1 rounded-md text-xs transition-colors ${mode === m ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {m === 'pin' ? 'PIN' : 'Passphrase'}
+          </button>
+        ))}
+      </div>
+      <input
+        type="password"
+        inputMode={isPin ? 'numeric' : 'text'}
+        autoComplete="new-password"
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(isPin ? e.target.value.replace(/\D/g, '') : e.target.value)}
+        maxLength={isPin ? MAX_PIN_LENGTH : undefined}
+        placeholder={isPin ? `New PIN (${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits)` : `New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+        className={inputClassName}
+      />
+      <input
+        type="password"
+        inputMode={isPin ? 'numeric' : 'text'}
+        autoComplete="new-password"
+        value={confirmValue}
+        disabled={disabled}
+        onChange={(e) => onConfirmChange(isPin ? e.target.value.replace(/\D/g, '') : e.target.value)}
+        maxLength={isPin ? MAX_PIN_LENGTH : undefined}
+        placeholder={isPin ? 'Confirm new PIN' : 'Confirm new passphrase'}
+        className={inputClassName}
+      />
+    </div>
+  );
+};
+
+export default NewPasscodeFields;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2, CheckCircle2 } from 'lucide-react';
+import { PasscodeMode, PasscodePolicy } from '../types';
+import { verifyPasscode, validatePasscode, replacePasscode } from '../services/credentialService';
+import { enrollRecoveryCode, generateRecoveryCode, getRecoveryCodeCreatedAt } from '../services/recoveryService';
+import { verifyDuressPasscode } from '../services/duressService';
+import { unlockVaultKey } from '../services/vaultService';
+import NewPasscodeFields from './NewPasscodeFields';
+
+interface PasscodeSettingsProps {
+  decoy?: boolean; // Inside the duress decoy: checks the duress passcode and stores nothing
+  vaultKey: CryptoKey | null;
+  policy: PasscodePolicy;
+  onPasscodeChanged: (policy: PasscodePolicy) => void;
+  onRecoveryCodeCreated: (code: string) => void;
+}
+
+const PasscodeSettings: React.FC<PasscodeSettingsProps> = ({ decoy = false, vaultKey, policy, onPasscodeChanged, onRecoveryCodeCreated }) => {
+  const [open, setOpen] = useState(false);
+  const [current, setCurrent] = useState('');
+  const [mode, setMode] = useState<PasscodeMode>(policy.mode);
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const [recoveryCreatedAt, setRecoveryCreatedAt] = useState(() => decoy ? null : getRecoveryCodeCreatedAt());
+
+  const reset = () => {
+    setCurrent('');
+    setNext('');
+    setConfirmNext('');
+    setError(null);
+  };
+
+  const handleChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validatePasscode(next, mode);
+    if (validationError) return setError(validationError);
+    if (next !== confirmNext) return setError('New passcodes do not match.');
+
+    setBusy(true);
+    setError(null);
+    try {
+      if (!(await (decoy ? verifyDuressPasscode(current) : verifyPasscode(current)))) {
+        setError('Current passcode is incorrect.');
+        return;
+      }
+      if (!decoy) {
+        const dataKey = vaultKey ?? await unlockVaultKey(current);
+        onPasscodeChanged(await replacePasscode(dataKey, next, mode));
+      }
+      reset();
+      setOpen(false);
+      setChanged(true);
+    } catch (err) {
+      console.error("Failed to change passcode", err);
+      setError('Could not change passcode.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleNewRecoveryCode = async () => {
+    if (!vaultKey && !decoy) return;
+    if (recoveryCreatedAt && !confirm('Generate a new recovery code? Your previous code will stop working.')) return;
+
+    setBusy(true);
+    try {
+      const code = decoy || !vaultKey ? generateRecoveryCode() : await enrollRecoveryCode(vaultKey);
+      setRecoveryCreatedAt(decoy ? Date.now() : getRecoveryCodeCreatedAt());
+      onRecoveryCodeCreated(code);
+    } catch (err) {
+      console.error("Failed to create recovery code", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <KeyRound size={16} />
+        Passcode &amp; Recovery
+      </label>
+
+      {!open ? (
+        <button
+          onClick={() => { setOpen(true); setChanged(false); setMode(policy.mode); }}
+          className="w-full bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-white text-left transition-colors"
+        >
+          Change passcode
+        </button>
+      ) : (
+        <form onSubmit={handleChange} className="space-y-3 p-4 bg-slate-800/50 rounded-xl border border-white/5">
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={current}
+            disabled={busy}
+            onChange={(e) => setCurrent(e.target.value)}
+            placeholder="Current passcode"
+            className="w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50"
+          />
+          <NewPasscodeFields
+            mode={mode}
+            onModeChange={(m) => { setMode(m); setNext(''); setConfirmNext(''); }}
+            value={next}
+            onChange={setNext}
+            confirmValue={confirmNext}
+            onConfirmChange={setConfirmNext}
+            disabled={busy}
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => { reset(); setOpen(false); }}
+              className="flex-1 bg-slate-700 hover:bg-slate-600 text-white text-sm py-2 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !current || !next}
+              className="flex-1 bg-blue-600 hover:bg-blue-500 text-white text-sm py-2 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+            >
+              {busy && <Loader2 className="animate-spin" size={14} />}
+              Update passcode
+            </button>
+          </div>
+        </form>
+      )}
+
+      {changed && (
+        <p className="text-xs text-green-400 flex items-center gap-1">
+          <CheckCircle2 size={12} /> Passcode updated. Use it the next time you unlock.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>
+          {recoveryCreatedAt
+            ? `Recovery code created ${new Date(recoveryCreatedAt).toLocaleDateString()}`
+            : 'No recovery code set up.'}
+        </span>
+        <button
+          onClick={handleNewRecoveryCode}
+          disabled={busy || (!vaultKey && !decoy)}
+          className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          {recoveryCreatedAt ? 'Regenerate' : 'Create recovery code'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PasscodeSettings;
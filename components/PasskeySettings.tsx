@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Fingerprint, Loader2, Trash2 } from 'lucide-react';
+import {
+  PasskeyInfo,
+  enrollPasskey,
+  isPasskeySupported,
+  removePasskey,
+  setPasskeyRequiresPasscode,
+} from '../services/passkeyService';
+import { verifyPasscode } from '../services/credentialService';
+
+interface PasskeySettingsProps {
+  decoy?: boolean; // Inside the duress decoy: enrolling fails the way an unsupported authenticator does
+  vaultKey: CryptoKey | null;
+  passkey: PasskeyInfo | null;
+  onChange: (passkey: PasskeyInfo | null) => void;
+}
+
+const PasskeySettings: React.FC<PasskeySettingsProps> = ({ decoy = false, vaultKey, passkey, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  // The policy being switched to, while the passcode is asked for
+  const [pendingRequire, setPendingRequire] = useState<boolean | null>(null);
+  const [passcode, setPasscode] = useState('');
+
+  const handleEnroll = async () => {
+    if (decoy) return setError('Passkey registration was cancelled or failed.');
+    if (!vaultKey) return setError('Unlock the vault with your passcode first.');
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await enrollPasskey(vaultKey));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not set up the passkey.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelPolicyChange = () => {
+    setPendingRequire(null);
+    setPasscode('');
+    setError(null);
+  };
+
+  // Both directions re-wrap the vault key, which takes the passcode and the authenticator
+  const handlePolicySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vaultKey || pendingRequire === null) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (!(await verifyPasscode(passcode))) {
+        setError('Passcode is incorrect.');
+        return;
+      }
+      onChange(await setPasskeyRequiresPasscode(vaultKey, passcode, pendingRequire));
+      cancelPolicyChange();
+    } catch (err) {
+      console.error("Failed to change passkey policy", err);
+      setError(err instanceof Error ? err.message : 'Could not change the passkey policy.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!confirm('Remove the passkey? You will need your passcode to unlock.')) return;
+    removePasskey();
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Fingerprint size={16} />
+        Passkey Unlock
+      </label>
+
+      {!isPasskeySupported() ? (
+        <p className="text-xs text-slate-500">This browser does not support passkeys.</p>
+      ) : passkey ? (
+        <>
+          <p className="text-xs text-slate-500">
+            Passkey added {new Date(passkey.createdAt).toLocaleDateString()}. Failed passkey checks count as failed attempts.
+          </p>
+          <label className="flex items-start gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pendingRequire ?? passkey.requirePasscode}
+              disabled={busy || !vaultKey}
+              onChange={(e) => {
+                setError(null);
+                setPendingRequire(e.target.checked === passkey.requirePasscode ? null : e.target.checked);
+              }}
+              className="mt-0.5 accent-blue-500"
+            />
+            <span className="space-y-0.5">
+              <span className="text-sm text-white block">Require passcode and passkey</span>
+              <span className="block text-xs text-slate-500">
+                The vault key is then only unwrapped with both together. Recovering the passcode removes the passkey.
+              </span>
+            </span>
+          </label>
+          {pendingRequire !== null && (
+            <form onSubmit={handlePolicySubmit} className="space-y-3 p-4 bg-slate-800/50 rounded-xl border border-white/5">
+              <p className="text-xs text-slate-400">Enter your passcode, then confirm with the passkey.</p>
+              <input
+                type="password"
+                autoComplete="current-password"
+                value={passcode}
+                disabled={busy}
+                onChange={(e) => setPasscode(e.target.value)}
+                placeholder="Passcode"
+                className="w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50"
+              />
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={cancelPolicyChange}
+                  className="flex-1 bg-slate-700 hover:bg-slate-600 text-white text-sm py-2 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={busy || !passcode}
+                  className="flex-1 bg-blue-600 hover:bg-blue-500 text-white text-sm py-2 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="animate-spin" size={14} />}
+                  Confirm
+                </button>
+              </div>
+            </form>
+          )}
+          <button
+            onClick={handleRemove}
+            disabled={passkey.requirePasscode}
+            className="w-full bg-slate-800 hover:bg-red-900/40 border border-white/10 rounded-lg p-3 text-sm text-red-300 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={14} />
+            Remove passkey
+          </button>
+          {passkey.requirePasscode && (
+            <p className="text-xs text-slate-500">To remove the passkey, first turn off the requirement so the passcode opens the vault on its own again.</p>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500">
+            Unlock with Touch ID, Windows Hello or a security key. The authenticator must support the PRF extension,
+            which lets it protect the vault key instead of only gating the screen.
+          </p>
+          <button
+            onClick={handleEnroll}
+            disabled={busy || (!vaultKey && !decoy)}
+            className="w-full bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-white flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="animate-spin" size={14} /> : <Fingerprint size={14} />}
+            Add a passkey
+          </button>
+        </>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PasskeySettings;
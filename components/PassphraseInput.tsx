@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, ArrowRight } from 'lucide-react';
+
+interface PassphraseInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  disabled?: boolean;
+  placeholder?: string;
+  minLength?: number; // Submitting stays disabled until the value is this long
+}
+
+const PassphraseInput: React.FC<PassphraseInputProps> = ({ value, onChange, onSubmit, disabled = false, placeholder = 'Passphrase', minLength = 1 }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (value.length >= minLength) onSubmit(); }}
+      className="w-full max-w-[320px] mx-auto mt-8 flex items-center gap-2"
+    >
+      <div className="relative flex-1">
+        <input
+          type={revealed ? 'text' : 'password'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          placeholder={placeholder}
+          autoFocus
+          autoComplete="current-password"
+          className="w-full bg-white/10 backdrop-blur-md border border-white/10 rounded-xl py-3 pl-4 pr-10 text-white placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={() => setRevealed(r => !r)}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-white"
+          aria-label={revealed ? 'Hide passphrase' : 'Show passphrase'}
+        >
+          {revealed ? <EyeOff size={18} /> : <Eye size={18} />}
+        </button>
+      </div>
+      <button
+        type="submit"
+        disabled={disabled || value.length < minLength}
+        className="w-12 h-12 rounded-xl bg-blue-600 hover:bg-blue-500 text-white flex items-center justify-center transition-colors disabled:opacity-50"
+        aria-label="Submit"
+      >
+        <ArrowRight size={20} />
+      </button>
+    </form>
+  );
+};
+
+export default PassphraseInput;
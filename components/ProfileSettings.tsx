@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Users, Loader2, Trash2, UserPlus } from 'lucide-react';
+import { PasscodeMode, Profile, ProfileRole } from '../types';
+import { validatePasscode } from '../services/credentialService';
+import { DEFAULT_PROFILE_ID, MAX_PROFILE_NAME_LENGTH, updateProfile, validateProfileName } from '../services/profileService';
+import { createProfile, deleteProfile } from '../services/profileAdmin';
+import { generateRecoveryCode } from '../services/recoveryService';
+import NewPasscodeFields from './NewPasscodeFields';
+
+interface ProfileSettingsProps {
+  decoy?: boolean; // Inside the duress decoy: changes only reach the callbacks, nothing is stored
+  profiles: Profile[];
+  activeId: string;
+  logKey: CryptoKey | null;
+  onCreated: (profile: Profile, recoveryCode: string) => void;
+  onUpdated: (profile: Profile) => void;
+  onDeleted: (profile: Profile) => void;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50";
+
+const ProfileSettings: React.FC<ProfileSettingsProps> = ({ decoy = false, profiles, activeId, logKey, onCreated, onUpdated, onDeleted }) => {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<ProfileRole>('member');
+  const [mode, setMode] = useState<PasscodeMode>('pin');
+  const [passcode, setPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const reset = () => {
+    setName('');
+    setRole('member');
+    setPasscode('');
+    setConfirmPasscode('');
+    setError(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!logKey && !decoy) return setError('The vault is not fully unlocked.');
+    const validationError = validateProfileName(name, undefined, decoy ? profiles : undefined) ?? validatePasscode(passcode, mode);
+    if (validationError) return setError(validationError);
+    if (passcode !== confirmPasscode) return setError('Passcodes do not match.');
+
+    setBusy(true);
+    setError(null);
+    try {
+      const { profile, recoveryCode } = decoy || !logKey
+        ? { profile: { id: crypto.randomUUID(), name: name.trim(), role, createdAt: Date.now() }, recoveryCode: generateRecoveryCode() }
+        : await createProfile(name, role, passcode, mode, logKey);
+      reset();
+      setAdding(false);
+      onCreated(profile, recoveryCode);
+    } catch (err) {
+      console.error("Failed to create profile", err);
+      setError('Could not create the profile.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRoleChange = (profile: Profile, next: ProfileRole) => {
+    try {
+      onUpdated(decoy ? { ...profile, role: next } : updateProfile(profile.id, { role: next }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not change the role.');
+    }
+  };
+
+  const handleDelete = async (profile: Profile) => {
+    if (!confirm(`Delete "${profile.name}" and all of their documents? Intruder logs of attempts on this profile are kept.`)) return;
+    setBusy(true);
+    try {
+      if (!decoy) await deleteProfile(profile.id);
+      onDeleted(profile);
+    } catch (err) {
+      console.error("Failed to delete profile", err);
+      setError('Could not delete the profile.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <Users size={16} />
+        Profiles
+      </label>
+      <p className="text-xs text-slate-500">
+        Each profile has its own passcode, documents and settings, and is picked on the lock screen. Admins see every
+        profile's intruder logs and the audit trail, and manage profiles.
+      </p>
+
+      <div className="space-y-2">
+        {profiles.map(profile => (
+          <div key={profile.id} className="flex items-center gap-3 p-3 bg-slate-800/50 rounded-lg border border-white/5">
+            <span className="flex-1 text-sm text-white truncate">
+              {profile.name}
+              {profile.id === activeId && <span className="text-xs text-slate-500"> (you)</span>}
+            </span>
+            <select
+              value={profile.role}
+              disabled={busy || profile.id === activeId}
+              onChange={(e) => handleRoleChange(profile, e.target.value as ProfileRole)}
+              className="bg-slate-800 border border-white/10 rounded px-2 py-1 text-xs text-white disabled:opacity-50"
+            >
+              <option value="admin">Admin</option>
+              <option value="member">Member</option>
+            </select>
+            {profile.id !== DEFAULT_PROFILE_ID && profile.id !== activeId && (
+              <button
+                onClick={() => handleDelete(profile)}
+                disabled={busy}
+                className="text-slate-500 hover:text-red-400 disabled:opacity-50"
+                aria-label={`Delete ${profile.name}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {adding ? (
+        <form onSubmit={handleCreate} className="space-y-3">
+          <input
+            type="text"
+            value={name}
+            disabled={busy}
+            maxLength={MAX_PROFILE_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className={inputClassName}
+          />
+          <select
+            value={role}
+            disabled={busy}
+            onChange={(e) => setRole(e.target.value as ProfileRole)}
+            className={inputClassName}
+          >
+            <option value="member">Member: own logs and documents only</option>
+            <option value="admin">Admin: every profile's logs and the audit trail</option>
+          </select>
+          <NewPasscodeFields
+            mode={mode}
+            onModeChange={(m) => { setMode(m); setPasscode(''); setConfirmPasscode(''); }}
+            value={passcode}
+            onChange={setPasscode}
+            confirmValue={confirmPasscode}
+            onConfirmChange={setConfirmPasscode}
+            disabled={busy}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => { reset(); setAdding(false); }}
+              className="flex-1 bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-slate-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !name || !passcode}
+              className="flex-1 bg-blue-600 hover:bg-blue-500 rounded-lg p-3 text-sm text-white flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+            >
+              {busy && <Loader2 className="animate-spin" size={14} />}
+              Create profile
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setAdding(true)}
+          className="w-full bg-slate-800 hover:bg-slate-700 border border-white/10 rounded-lg p-3 text-sm text-white flex items-center justify-center gap-2 transition-colors"
+        >
+          <UserPlus size={14} />
+          Add a profile
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { KeyRound, Copy, Check } from 'lucide-react';
+
+interface RecoveryCodeNoticeProps {
+  code: string;
+  message: string;
+  onDismiss: () => void;
+}
+
+const RecoveryCodeNotice: React.FC<RecoveryCodeNoticeProps> = ({ code, message, onDismiss }) => {
+  const [copied, setCopied] = useState(false);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Clipboard write failed", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-white/10 w-full max-w-md rounded-2xl overflow-hidden shadow-2xl text-left">
+        <div className="p-6 border-b border-white/10">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <KeyRound size={20} className="text-amber-400" />
+            Save Your Recovery Code
+          </h3>
+          <p className="text-sm text-slate-400 mt-2">{message}</p>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-slate-950 border border-white/10 rounded-lg p-3 font-mono text-center text-lg tracking-wider text-amber-300 select-all">
+              {code}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="p-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+              aria-label="Copy recovery code"
+            >
+              {copied ? <Check size={18} className="text-green-400" /> : <Copy size={18} />}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            This code resets a forgotten passcode without losing your documents or intruder logs.
+            It is shown only once and cannot be retrieved later. Store it somewhere safe, away from this device.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+              className="accent-blue-500"
+            />
+            I have saved my recovery code
+          </label>
+        </div>
+        <div className="p-4 bg-slate-900/80 border-t border-white/10">
+          <button
+            onClick={onDismiss}
+            disabled={!acknowledged}
+            className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodeNotice;
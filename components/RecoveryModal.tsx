@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { LifeBuoy, Loader2, X } from 'lucide-react';
+import { PasscodeMode, PasscodePolicy } from '../types';
+import { validatePasscode } from '../services/credentialService';
+import { resetPasscodeWithRecoveryCode } from '../services/recoveryService';
+import NewPasscodeFields from './NewPasscodeFields';
+
+interface RecoveryModalProps {
+  lockedOut: boolean;
+  onFailedAttempt: () => void;
+  onRecovered: (policy: PasscodePolicy, recoveryCode: string) => void;
+  onClose: () => void;
+}
+
+const RecoveryModal: React.FC<RecoveryModalProps> = ({ lockedOut, onFailedAttempt, onRecovered, onClose }) => {
+  const [code, setCode] = useState('');
+  const [mode, setMode] = useState<PasscodeMode>('pin');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lockedOut) return;
+    const validationError = validatePasscode(next, mode);
+    if (validationError) return setError(validationError);
+    if (next !== confirmNext) return setError('New passcodes do not match.');
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await resetPasscodeWithRecoveryCode(code, next, mode);
+      if (!result) {
+        // Wrong recovery codes count toward the same lockout as wrong passcodes
+        onFailedAttempt();
+        setError('Recovery code is not valid.');
+        return;
+      }
+      onRecovered(result.policy, result.recoveryCode);
+    } catch (err) {
+      console.error("Passcode recovery failed", err);
+      setError('Recovery failed.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-slate-900 border border-white/10 w-full max-w-md rounded-2xl overflow-hidden shadow-2xl">
+        <div className="p-6 border-b border-white/10 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <LifeBuoy size={20} className="text-blue-400" />
+            Reset Passcode
+          </h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-400">
+            Enter the recovery code you saved during setup and choose a new passcode.
+            Your documents and intruder logs are kept.
+          </p>
+          <input
+            type="text"
+            autoComplete="off"
+            spellCheck={false}
+            value={code}
+            disabled={busy}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="XXXX-XXXX-XXXX-XXXX-XXXX"
+            className="w-full bg-slate-800 border border-white/10 rounded-lg p-3 font-mono uppercase tracking-wider text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50"
+          />
+          <NewPasscodeFields
+            mode={mode}
+            onModeChange={(m) => { setMode(m); setNext(''); setConfirmNext(''); }}
+            value={next}
+            onChange={setNext}
+            confirmValue={confirmNext}
+            onConfirmChange={setConfirmNext}
+            disabled={busy}
+          />
+          {lockedOut && <p className="text-xs text-amber-400">Too many failed attempts. Wait for the cooldown to end.</p>}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+        <div className="p-4 bg-slate-900/80 border-t border-white/10">
+          <button
+            type="submit"
+            disabled={busy || lockedOut || !code || !next}
+            className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {busy && <Loader2 className="animate-spin" size={18} />}
+            Reset Passcode
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RecoveryModal;
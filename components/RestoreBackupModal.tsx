@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ArchiveRestore, Loader2, X } from 'lucide-react';
+import { restoreBackup } from '../services/backupService';
+
+interface RestoreBackupModalProps {
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ onRestored, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await restoreBackup(file, passphrase);
+      onRestored();
+    } catch (err) {
+      console.error("Failed to restore backup", err);
+      setError(err instanceof Error ? err.message : 'Could not restore the backup.');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-slate-900 border border-white/10 w-full max-w-md rounded-2xl overflow-hidden shadow-2xl text-left">
+        <div className="p-6 border-b border-white/10 flex justify-between items-center">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <ArchiveRestore size={20} className="text-blue-400" />
+            Restore Backup
+          </h3>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-400">
+            Choose a VaultGuard backup file and enter its backup passphrase. After restoring, unlock with the
+            passcode that was in use when the backup was made.
+          </p>
+          <input
+            type="file"
+            accept=".vgbackup,application/json"
+            disabled={busy}
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="w-full text-sm text-slate-300 file:mr-3 file:py-2 file:px-3 file:rounded-lg file:border-0 file:bg-slate-700 file:text-white hover:file:bg-slate-600"
+          />
+          <input
+            type="password"
+            autoComplete="off"
+            value={passphrase}
+            disabled={busy}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Backup passphrase"
+            className="w-full bg-slate-800 border border-white/10 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all disabled:opacity-50"
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+        <div className="p-4 bg-slate-900/80 border-t border-white/10">
+          <button
+            type="submit"
+            disabled={busy || !file || !passphrase}
+            className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 rounded-xl flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {busy && <Loader2 className="animate-spin" size={18} />}
+            Restore
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RestoreBackupModal;
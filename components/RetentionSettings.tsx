@@ -0,0 +1,62 @@
+import React from 'react';
+import { HardDrive } from 'lucide-react';
+import { RetentionPolicy } from '../types';
+
+interface RetentionSettingsProps {
+  retention: RetentionPolicy;
+  onChange: (retention: RetentionPolicy) => void;
+}
+
+const MB = 1024 * 1024;
+
+const inputClassName = "w-full bg-slate-800 border border-white/10 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all";
+
+const RetentionSettings: React.FC<RetentionSettingsProps> = ({ retention, onChange }) => {
+  const parse = (value: string) => Math.max(0, parseInt(value) || 0);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+        <HardDrive size={16} />
+        Log Retention
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Max captures</span>
+          <input
+            type="number"
+            min="0"
+            value={retention.maxCount}
+            onChange={(e) => onChange({ ...retention, maxCount: parse(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Max age (days)</span>
+          <input
+            type="number"
+            min="0"
+            value={retention.maxAgeDays}
+            onChange={(e) => onChange({ ...retention, maxAgeDays: parse(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Max size (MB)</span>
+          <input
+            type="number"
+            min="0"
+            value={Math.round(retention.maxBytes / MB)}
+            onChange={(e) => onChange({ ...retention, maxBytes: parse(e.target.value) * MB })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        The oldest captures are deleted automatically once any limit is exceeded. Use 0 for no limit.
+      </p>
+    </div>
+  );
+};
+
+export default RetentionSettings;
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { AuditEvent, IntruderLog, ThreatLevel } from '../types';
+import { listAuditEvents, subscribeToAuditLog } from '../services/auditLog';
+import { DEFAULT_PROFILE_ID } from '../services/profileService';
+import { groupIncidents } from '../services/incidentService';
+import { THREAT_LEVEL_LABELS } from '../services/threatAnalysis';
+import {
+  ANALYTICS_RANGES,
+  AnalyticsRange,
+  attemptsFromAudit,
+  buildSecurityAnalytics,
+  formatInterval,
+} from '../services/analyticsService';
+
+interface SecurityDashboardProps {
+  logs: IntruderLog[];
+  logKey: CryptoKey | null; // Without it (the decoy vault) the history is empty
+  profileId?: string; // Only count this profile's attempts; omitted for admins
+  children?: React.ReactNode; // Extra cards appended to the summary row
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR_TICKS = [0, 6, 12, 18];
+
+const THREAT_LEVEL_BARS: Record<ThreatLevel, string> = {
+  1: 'bg-green-500',
+  2: 'bg-lime-500',
+  3: 'bg-yellow-500',
+  4: 'bg-orange-500',
+  5: 'bg-red-500',
+};
+
+const formatDay = (timestamp: number) => new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const StatCard: React.FC<{ label: string; children: React.ReactNode; hint?: string }> = ({ label, children, hint }) => (
+  <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
+    <div className="text-slate-400 text-sm mb-1">{label}</div>
+    <div className="text-xl font-medium">{children}</div>
+    {hint && <div className="text-[10px] text-slate-500 mt-1">{hint}</div>}
+  </div>
+);
+
+/**
+ * Attempt trends for a chosen date range, computed on this device from the
+ * audit log and the intruder logs.
+ */
+const SecurityDashboard: React.FC<SecurityDashboardProps> = ({ logs, logKey, profileId, children }) => {
+  const [range, setRange] = useState<AnalyticsRange>('30d');
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+
+  useEffect(() => {
+    if (!logKey) {
+      setEvents([]);
+      return;
+    }
+    // The log is decrypted once; later events arrive already open and are prepended
+    let cancelled = false;
+    const unsubscribe = subscribeToAuditLog(event =>
+      setEvents(prev => (prev.some(e => e.seq === event.seq) ? prev : [event, ...prev]))
+    );
+    listAuditEvents(logKey)
+      .then(loaded => {
+        if (cancelled) return;
+        // Keep anything recorded while the log was being read
+        const latest = loaded[0]?.seq ?? 0;
+        setEvents(prev => [...prev.filter(e => e.seq > latest), ...loaded]);
+      })
+      .catch(err => console.error("Failed to load attempt history", err));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [logKey]);
+
+  const analytics = useMemo(() => {
+    // Events recorded before there were several profiles carry no id, and were the first profile's
+    const own: AuditEvent[] = profileId
+      ? events.filter(e => (typeof e.details.profileId === 'string' ? e.details.profileId : DEFAULT_PROFILE_ID) === profileId)
+      : events;
+    return buildSecurityAnalytics(attemptsFromAudit(own), logs, groupIncidents(logs), range);
+  }, [events, logs, profileId, range]);
+
+  const busiestBucket = Math.max(1, ...analytics.buckets.map(b => b.successes + b.failures));
+  const analyzed = (Object.values(analytics.threatLevels) as number[]).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-end gap-2 flex-wrap">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <BarChart3 className="text-blue-500" size={20} />
+          Security Analytics
+        </h3>
+        <div className="flex gap-1 p-1 bg-slate-900 border border-white/10 rounded-lg">
+          {(Object.keys(ANALYTICS_RANGES) as AnalyticsRange[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setRange(key)}
+              className={`px-2 py-1 text-xs rounded-md transition-colors ${range === key ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {ANALYTICS_RANGES[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        <StatCard label="Unlock Attempts" hint={`${analytics.successes} succeeded · ${analytics.failures} failed`}>
+          <span className="text-2xl font-bold">{analytics.attempts}</span>
+        </StatCard>
+        <StatCard
+          label="Failure Rate"
+          hint={analytics.failureRate === null ? 'No attempts in this range' : 'Failed attempts of all attempts'}
+        >
+          <span className={analytics.failureRate ? 'text-red-400' : ''}>
+            {analytics.failureRate === null ? 'N/A' : `${Math.round(analytics.failureRate * 100)}%`}
+          </span>
+          {analytics.failureRate !== null && (
+            <div className="mt-2 h-1.5 bg-green-500/60 rounded-full overflow-hidden">
+              <div className="h-full bg-red-500" style={{ width: `${analytics.failureRate * 100}%` }} />
+            </div>
+          )}
+        </StatCard>
+        <StatCard
+          label="Last Breach"
+          hint={analytics.lastBreachAt !== null ? new Date(analytics.lastBreachAt).toLocaleDateString() : undefined}
+        >
+          {analytics.lastBreachAt !== null
+            ? new Date(analytics.lastBreachAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            : 'N/A'}
+        </StatCard>
+        <StatCard
+          label="Between Incidents"
+          hint={`Mean over ${analytics.incidents} incident${analytics.incidents === 1 ? '' : 's'}`}
+        >
+          {analytics.meanTimeBetweenIncidentsMs !== null ? formatInterval(analytics.meanTimeBetweenIncidentsMs) : 'N/A'}
+        </StatCard>
+        {children}
+      </div>
+
+      {/* Attempts over time */}
+      <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
+        <div className="flex justify-between items-center mb-3">
+          <span className="text-sm text-slate-400">
+            Attempts per {analytics.buckets[0]?.days === 7 ? 'week' : 'day'}
+          </span>
+          <span className="flex gap-3 text-[10px] text-slate-500">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-500" /> Failed</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-green-500/70" /> Succeeded</span>
+          </span>
+        </div>
+        <div className="flex items-end gap-px h-24">
+          {analytics.buckets.map(bucket => (
+            <div
+              key={bucket.start}
+              className="flex-1 flex flex-col justify-end h-full min-w-0"
+              title={`${formatDay(bucket.start)}: ${bucket.failures} failed, ${bucket.successes} succeeded`}
+            >
+              <div className="bg-red-500 rounded-t-sm" style={{ height: `${(bucket.failures / busiestBucket) * 100}%` }} />
+              <div className="bg-green-500/70" style={{ height: `${(bucket.successes / busiestBucket) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+          <span>{formatDay(analytics.from)}</span>
+          <span>Today</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* Hour-of-week heatmap */}
+        <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
+          <div className="text-sm text-slate-400 mb-3">Failed attempts by hour</div>
+          <div className="space-y-0.5">
+            {analytics.heatmap.map((hours, day) => (
+              <div key={day} className="flex items-center gap-1">
+                <span className="w-7 text-[10px] text-slate-500">{WEEKDAYS[day]}</span>
+                <div className="flex-1 grid grid-cols-[repeat(24,minmax(0,1fr))] gap-px">
+                  {hours.map((count, hour) => (
+                    <div
+                      key={hour}
+                      className={`h-3 rounded-[1px] ${count > 0 ? 'bg-red-500' : 'bg-slate-800'}`}
+                      style={count > 0 ? { opacity: 0.25 + 0.75 * (count / analytics.heatmapMax) } : undefined}
+                      title={`${WEEKDAYS[day]} ${hour.toString().padStart(2, '0')}:00: ${count} failed`}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center gap-1">
+              <span className="w-7" />
+              <div className="flex-1 flex justify-between text-[10px] text-slate-500">
+                {HOUR_TICKS.map(hour => <span key={hour}>{hour.toString().padStart(2, '0')}</span>)}
+                <span>24</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Threat levels */}
+        <div className="bg-slate-900 border border-white/10 p-4 rounded-xl">
+          <div className="text-sm text-slate-400 mb-3">Threat levels</div>
+          {analyzed === 0 ? (
+            <p className="text-xs text-slate-500">No analyzed captures in this range.</p>
+          ) : (
+            <div className="space-y-1.5">
+              {([5, 4, 3, 2, 1] as ThreatLevel[]).map(level => (
+                <div key={level} className="flex items-center gap-2 text-xs">
+                  <span className="w-20 text-slate-400">{level} · {THREAT_LEVEL_LABELS[level]}</span>
+                  <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full ${THREAT_LEVEL_BARS[level]}`}
+                      style={{ width: `${(analytics.threatLevels[level] / analyzed) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-6 text-right text-slate-300">{analytics.threatLevels[level]}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {analytics.unanalyzed > 0 && (
+            <p className="text-[10px] text-slate-500 mt-2">
+              {analytics.unanalyzed} capture{analytics.unanalyzed === 1 ? '' : 's'} not analyzed yet
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SecurityDashboard;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Users, UserCheck, EyeOff, Eye, Pencil, Check, ChevronDown, ChevronUp } from 'lucide-react';
+import { IntruderLog, Suspect, SuspectStatus } from '../types';
+import { suspectLabel } from '../services/suspectService';
+import LogMedia from './LogMedia';
+
+interface SuspectsPanelProps {
+  suspects: Suspect[];
+  logs: IntruderLog[];
+  logKey: CryptoKey;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onRename: (id: string, name: string) => void;
+  onStatusChange: (id: string, status: SuspectStatus) => void;
+}
+
+const countDays = (logs: IntruderLog[]) => new Set(logs.map(l => new Date(l.timestamp).toDateString())).size;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Captures grouped by matching face, so repeat intruders stand out from one-offs.
+ */
+const SuspectsPanel: React.FC<SuspectsPanelProps> = ({ suspects, logs, logKey, selectedId, onSelect, onRename, onStatusChange }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  const withLogs = suspects
+    .map(suspect => ({ suspect, logs: logs.filter(l => l.suspectId === suspect.id) }))
+    .filter(entry => entry.logs.length > 0);
+  const visible = withLogs.filter(e => e.suspect.status !== 'dismissed');
+  const dismissed = withLogs.filter(e => e.suspect.status === 'dismissed');
+
+  if (withLogs.length === 0) return null;
+
+  const submitRename = (id: string) => {
+    setRenamingId(null);
+    onRename(id, renameValue.trim());
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-end mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Users className="text-orange-500" size={20} />
+          Suspects
+        </h3>
+        {selectedId && (
+          <button onClick={() => onSelect(null)} className="text-xs text-blue-400 hover:text-blue-300">
+            Show all logs
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {visible.map(({ suspect, logs: suspectLogs }) => {
+          const latest = suspectLogs[0];
+          return (
+            <div
+              key={suspect.id}
+              className={`bg-slate-900 border rounded-xl p-3 flex items-center gap-3 transition-colors ${selectedId === suspect.id ? 'border-blue-500/60' : 'border-white/10'}`}
+            >
+              <button
+                onClick={() => onSelect(selectedId === suspect.id ? null : suspect.id)}
+                className="w-12 h-12 rounded-lg overflow-hidden bg-black shrink-0"
+                aria-label="Show this suspect's logs"
+              >
+                <LogMedia
+                  mediaId={latest.faceCropId ?? latest.imageId}
+                  logKey={logKey}
+                  alt={suspectLabel(suspect)}
+                  className="w-full h-full object-cover"
+                />
+              </button>
+
+              <div className="min-w-0 flex-1">
+                {renamingId === suspect.id ? (
+                  <form onSubmit={(e) => { e.preventDefault(); submitRename(suspect.id); }} className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      placeholder="Name (leave empty to clear)"
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Escape') setRenamingId(null); }}
+                      className="w-full bg-slate-800 border border-white/10 rounded px-2 py-1 text-sm text-white outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <button type="submit" className="text-green-400 hover:text-green-300">
+                      <Check size={16} />
+                    </button>
+                  </form>
+                ) : (
+                  <div className="text-sm text-white flex items-center gap-2">
+                    <span className="truncate">{suspectLabel(suspect)}</span>
+                    {suspect.status === 'known' && (
+                      <span className="text-[10px] uppercase tracking-wide bg-green-500/10 text-green-400 px-1.5 py-0.5 rounded">Known</span>
+                    )}
+                  </div>
+                )}
+                <div className="text-xs text-slate-500">
+                  {plural(suspectLogs.length, 'attempt')} across {plural(countDays(suspectLogs), 'day')}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 text-slate-400">
+                <button
+                  onClick={() => { setRenamingId(suspect.id); setRenameValue(suspect.name ?? ''); }}
+                  className="p-1.5 rounded hover:bg-white/10 hover:text-white"
+                  aria-label="Rename"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => onStatusChange(suspect.id, suspect.status === 'known' ? 'active' : 'known')}
+                  className={`p-1.5 rounded hover:bg-white/10 ${suspect.status === 'known' ? 'text-green-400' : 'hover:text-white'}`}
+                  title={suspect.status === 'known' ? 'Known person: captures send low-priority alerts. Click to undo.' : 'Mark as a known person so their captures send low-priority alerts'}
+                >
+                  <UserCheck size={16} />
+                </button>
+                <button
+                  onClick={() => { onStatusChange(suspect.id, 'dismissed'); if (selectedId === suspect.id) onSelect(null); }}
+                  className="p-1.5 rounded hover:bg-white/10 hover:text-white"
+                  title="Dismiss this grouping"
+                >
+                  <EyeOff size={16} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {dismissed.length > 0 && (
+        <div className="mt-2">
+          <button
+            onClick={() => setShowDismissed(prev => !prev)}
+            className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1"
+          >
+            {showDismissed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            {plural(dismissed.length, 'dismissed suspect')}
+          </button>
+          {showDismissed && (
+            <div className="mt-2 space-y-1">
+              {dismissed.map(({ suspect, logs: suspectLogs }) => (
+                <div key={suspect.id} className="flex items-center justify-between text-sm text-slate-400 bg-slate-900/50 rounded-lg px-3 py-2">
+                  <span>{suspectLabel(suspect)} · {plural(suspectLogs.length, 'attempt')}</span>
+                  <button
+                    onClick={() => onStatusChange(suspect.id, 'active')}
+                    className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    <Eye size={14} /> Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500 mt-2">
+        Grouped on this device by face similarity. Captures without a detected face are not grouped.
+      </p>
+    </div>
+  );
+};
+
+export default SuspectsPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ThreatAnalysis, ThreatLevel } from '../types';
+import { THREAT_LEVEL_LABELS, isStructuredAnalysis } from '../services/threatAnalysis';
+import { PROVIDER_LABELS } from '../services/analysisService';
+
+interface ThreatAnalysisCardProps {
+  analysis: ThreatAnalysis | string;
+}
+
+const THREAT_LEVEL_STYLES: Record<ThreatLevel, string> = {
+  1: 'bg-green-500/10 text-green-400',
+  2: 'bg-lime-500/10 text-lime-400',
+  3: 'bg-yellow-500/10 text-yellow-400',
+  4: 'bg-orange-500/10 text-orange-400',
+  5: 'bg-red-500/10 text-red-400',
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <div className="text-[10px] uppercase tracking-wide text-slate-500">{label}</div>
+    <div className="text-slate-300">{children}</div>
+  </div>
+);
+
+const sourceTitle = (analysis: ThreatAnalysis | string) =>
+  isStructuredAnalysis(analysis) && analysis.source ? `Model: ${analysis.source.model}` : undefined;
+
+const ThreatAnalysisCard: React.FC<ThreatAnalysisCardProps> = ({ analysis }) => (
+  <div className="bg-slate-800/50 rounded p-3 text-sm text-slate-300 mt-2 border-l-2 border-purple-500">
+    {/* Analyses without a source predate provider selection and always came from Gemini */}
+    <p className="text-xs text-purple-400 font-bold mb-1 flex items-center gap-1 uppercase" title={sourceTitle(analysis)}>
+      {isStructuredAnalysis(analysis) && analysis.source ? PROVIDER_LABELS[analysis.source.provider] : 'Gemini'} Analysis
+    </p>
+    {!isStructuredAnalysis(analysis) ? (
+      analysis
+    ) : (
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <span className={`text-xs font-medium px-2 py-0.5 rounded ${THREAT_LEVEL_STYLES[analysis.threatLevel]}`}>
+            Threat {analysis.threatLevel}/5 · {THREAT_LEVEL_LABELS[analysis.threatLevel]}
+          </span>
+          <span className="text-xs bg-slate-700/60 text-slate-300 px-2 py-0.5 rounded">
+            {Math.round(analysis.confidence * 100)}% confidence
+          </span>
+        </div>
+        {analysis.summary && <p>{analysis.summary}</p>}
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Age">{analysis.ageRange.min}–{analysis.ageRange.max}</Field>
+          <Field label="Expression">{analysis.expression}</Field>
+          <div className="col-span-2">
+            <Field label="Environment">{analysis.environment}</Field>
+          </div>
+        </div>
+        {analysis.distinctiveFeatures.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {analysis.distinctiveFeatures.map(feature => (
+              <span key={feature} className="text-xs bg-purple-500/10 text-purple-300 px-2 py-0.5 rounded">
+                {feature}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+export default ThreatAnalysisCard;
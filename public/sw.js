@@ -0,0 +1,110 @@
+// VaultGuard service worker. Caches the app shell so the vault opens and records
+// intruders with no network, and relays background sync to open pages.
+
+const CACHE_NAME = 'vaultguard-shell-v1';
+const SHELL_URLS = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+const FLUSH_SYNC_TAG = 'vaultguard-flush';
+
+// Third-party hosts the shell loads from (styles, fonts). API calls are never cached.
+const CACHEABLE_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+const isCacheable = (url) =>
+  url.origin === self.location.origin || CACHEABLE_HOSTS.includes(url.hostname);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheResponse = async (request, response) => {
+  // Opaque responses (no-cors scripts and fonts) report status 0 but are usable,
+  // though only to no-cors requests, so they never replace a readable copy
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    const existing = response.type === 'opaque' ? await cache.match(request) : undefined;
+    if (!existing || existing.type === 'opaque') await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Cross-origin assets are fetched with CORS so the copy can answer CORS requests
+// (fonts, modules); hosts that do not allow it fall back to an opaque copy
+const fetchForCache = async (url) => {
+  if (new URL(url).origin === self.location.origin) return fetch(url);
+  try {
+    return await fetch(url, { mode: 'cors' });
+  } catch {
+    return fetch(url, { mode: 'no-cors' });
+  }
+};
+
+// The page was loaded before the worker took control; fetch what it used into the cache
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls') return;
+  const urls = event.data.urls.filter(url => isCacheable(new URL(url)));
+  event.waitUntil(Promise.all(urls.map(async url => {
+    if (await caches.match(url)) return;
+    try {
+      await cacheResponse(url, await fetchForCache(url));
+    } catch (e) {
+      console.error('Failed to cache', url, e);
+    }
+  })));
+});
+
+// The browser rejects an opaque response to a CORS request, so those go to the network
+const usableFor = (request, cached) =>
+  cached && (cached.type !== 'opaque' || request.mode === 'no-cors') ? cached : undefined;
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+
+  if (request.mode === 'navigate') {
+    // Network first so a new build is picked up; the cached shell when offline
+    event.respondWith(
+      fetch(request)
+        .then(response => cacheResponse('./index.html', response))
+        .catch(async () => (await caches.match('./index.html')) ?? Response.error())
+    );
+    return;
+  }
+
+  // Stale-while-revalidate: built assets are content-hashed, CDN ones rarely change
+  event.respondWith(
+    caches.match(request).then(match => {
+      const cached = usableFor(request, match);
+      const network = fetch(request).then(response => cacheResponse(request, response));
+      if (cached) {
+        event.waitUntil(network.catch(() => undefined));
+        return cached;
+      }
+      return network;
+    })
+  );
+});
+
+// Alerts and analyses need settings and keys that live in the page, so wake it to flush
+self.addEventListener('sync', (event) => {
+  if (event.tag !== FLUSH_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then(clients => {
+      // With no page open, fail so the browser retries the sync later
+      if (clients.length === 0) throw new Error('No open VaultGuard page to flush');
+      clients.forEach(client => client.postMessage({ type: FLUSH_SYNC_TAG }));
+    })
+  );
+});
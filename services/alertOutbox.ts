@@ -0,0 +1,206 @@
+import { AlertChannelType, AlertDelivery, AlertDeliveryStatus, AppSettings, SecurityAlert } from '../types';
+import { createAlertChannel } from './alertService';
+import { SealedBox, openSealedJson, sealJson } from './cryptoService';
+import { STORES, idbDelete, idbGetAll, idbPut } from './idb';
+import { getLogPublicKey } from './logKeyService';
+import { requestBackgroundSync } from './offlineService';
+import { DEFAULT_PROFILE_ID } from './profileService';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+/**
+ * One pending delivery of an alert over one channel, so a failing webhook does
+ * not hold back the email (or cause it to be sent twice).
+ *
+ * The alert carries the intruder's photo and analysis, so it is sealed with the
+ * log public key like the log itself. Only what routing and retries need stays
+ * in the clear. `alert` is set only before a log key pair exists.
+ */
+export interface OutboxEntry {
+  id: string;
+  alertId: string;
+  logId?: string;
+  profileId?: string; // Whose channel settings deliver it; absent on entries from before profiles
+  channel: AlertChannelType;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  sealed?: SealedBox;
+  alert?: SecurityAlert;
+}
+
+// Alerts queued since the page loaded, so they can be sent while LOCKED
+const queuedAlerts = new Map<string, SecurityAlert>();
+
+type DeliveryListener = (logId: string, delivery: AlertDelivery) => void;
+
+const listeners = new Set<DeliveryListener>();
+
+/**
+ * Subscribes to delivery status changes for alerts that belong to an intruder log.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToDeliveries = (listener: DeliveryListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = (entry: OutboxEntry, status: AlertDeliveryStatus, attempts: number, lastError?: string) => {
+  const logId = entry.logId;
+  if (!logId) return;
+  const delivery: AlertDelivery = { channel: entry.channel, status, attempts, lastError, updatedAt: Date.now() };
+  listeners.forEach(listener => listener(logId, delivery));
+};
+
+export const pendingDelivery = (channel: AlertChannelType): AlertDelivery => ({
+  channel,
+  status: 'pending',
+  attempts: 0,
+  updatedAt: Date.now(),
+});
+
+/**
+ * Replaces the record for the delivery's channel, keeping the other channels' records.
+ */
+export const mergeDelivery = (deliveries: AlertDelivery[] | undefined, delivery: AlertDelivery): AlertDelivery[] => [
+  ...(deliveries ?? []).filter(d => d.channel !== delivery.channel),
+  delivery,
+];
+
+export const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+/**
+ * Queues the alert on each channel for the profile that raised it, so it goes
+ * out with that profile's channel settings whichever profile is active later.
+ */
+export const enqueueAlert = async (alert: SecurityAlert, channels: AlertChannelType[], profileId: string): Promise<void> => {
+  queuedAlerts.set(alert.id, alert);
+  const publicKey = await getLogPublicKey();
+  const sealed = publicKey ? await sealJson(publicKey, alert) : undefined;
+  await Promise.all(
+    channels.map(channel =>
+      idbPut<OutboxEntry>(STORES.ALERT_OUTBOX, {
+        id: `${alert.id}:${channel}`,
+        alertId: alert.id,
+        logId: alert.logId,
+        profileId,
+        channel,
+        attempts: 0,
+        nextAttemptAt: alert.createdAt,
+        ...(sealed ? { sealed } : { alert }),
+      })
+    )
+  );
+  // Wake the app to deliver once the network is back, even from a background tab
+  if (!navigator.onLine) requestBackgroundSync();
+};
+
+// Entries queued before sealing only have the plaintext alert to take ids from
+export const listOutbox = async (): Promise<OutboxEntry[]> =>
+  (await idbGetAll<OutboxEntry>(STORES.ALERT_OUTBOX)).map(entry =>
+    entry.alert ? { ...entry, alertId: entry.alertId ?? entry.alert.id, logId: entry.logId ?? entry.alert.logId } : entry
+  );
+
+/**
+ * Seals entries queued before the log key pair existed. Called after unlock,
+ * alongside sealPlaintextLogs.
+ */
+export const sealPlaintextOutbox = async (): Promise<void> => {
+  const publicKey = await getLogPublicKey();
+  if (!publicKey) return;
+  for (const { alert, ...entry } of await listOutbox()) {
+    if (!alert) continue;
+    await idbPut<OutboxEntry>(STORES.ALERT_OUTBOX, { ...entry, sealed: await sealJson(publicKey, alert) });
+  }
+};
+
+/**
+ * The alert to send: from memory if it was queued this session, otherwise
+ * opened with the log private key. Null while LOCKED after a reload; the entry
+ * then waits for the next unlock.
+ */
+const readAlert = async (entry: OutboxEntry, logKey: CryptoKey | null): Promise<SecurityAlert | null> => {
+  const queued = queuedAlerts.get(entry.alertId);
+  if (queued) return queued;
+  if (entry.alert) return entry.alert;
+  if (!entry.sealed || !logKey) return null;
+  const alert = await openSealedJson<SecurityAlert>(logKey, entry.sealed);
+  queuedAlerts.set(entry.alertId, alert);
+  return alert;
+};
+
+const forget = async (entry: OutboxEntry) => {
+  await idbDelete(STORES.ALERT_OUTBOX, entry.id);
+  // Other channels may still be sending the same alert
+  const remaining = await listOutbox();
+  if (!remaining.some(e => e.alertId === entry.alertId)) queuedAlerts.delete(entry.alertId);
+};
+
+const deliver = async (entry: OutboxEntry, alert: SecurityAlert, settings: AppSettings, now: number): Promise<void> => {
+  const channel = createAlertChannel(entry.channel, settings);
+  if (!channel) {
+    // The channel was disabled or unconfigured after the alert was queued
+    await forget(entry);
+    notify(entry, 'failed', entry.attempts, 'Channel is disabled or not configured');
+    return;
+  }
+
+  try {
+    await channel.send(alert);
+    await forget(entry);
+    notify(entry, 'sent', entry.attempts + 1);
+  } catch (err) {
+    const attempts = entry.attempts + 1;
+    const lastError = err instanceof Error ? err.message : String(err);
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`[ALERT SYSTEM] Giving up on ${entry.channel} alert after ${attempts} attempts:`, lastError);
+      await forget(entry);
+      notify(entry, 'failed', attempts, lastError);
+      return;
+    }
+    await idbPut<OutboxEntry>(STORES.ALERT_OUTBOX, {
+      ...entry,
+      attempts,
+      lastError,
+      nextAttemptAt: now + retryDelay(attempts),
+    });
+    notify(entry, 'pending', attempts, lastError);
+  }
+};
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Sends every queued alert whose retry time has come, with the saved settings
+ * of the profile that queued it. Concurrent calls share the same run so an
+ * entry is never delivered twice. Without the log private key, only alerts
+ * queued since the page loaded can be read.
+ */
+export const flushOutbox = (settingsFor: (profileId: string) => AppSettings, logKey: CryptoKey | null): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    try {
+      const now = Date.now();
+      // Local notifications still work offline; network channels wait for connectivity
+      const due = (await listOutbox()).filter(entry =>
+        entry.nextAttemptAt <= now && (navigator.onLine || entry.channel === 'notification')
+      );
+      await Promise.all(due.map(async entry => {
+        const alert = await readAlert(entry, logKey);
+        if (alert) await deliver(entry, alert, settingsFor(entry.profileId ?? DEFAULT_PROFILE_ID), now);
+      }));
+    } catch (err) {
+      console.error("Failed to flush alert outbox", err);
+    } finally {
+      flushing = null;
+    }
+  })();
+
+  return flushing;
+};
@@ -0,0 +1,175 @@
+import {
+  AlertChannelType,
+  AppSettings,
+  NotificationChannelConfig,
+  SecurityAlert,
+  SmtpRelayChannelConfig,
+  ThreatAnalysis,
+  WebhookChannelConfig,
+} from '../types';
+import { THREAT_LEVEL_LABELS } from './threatAnalysis';
+import { fileExtension, splitDataUrl } from './mediaUtils';
+
+/**
+ * A transport that can deliver a security alert. send() rejects on failure so
+ * the outbox can retry it later.
+ */
+export interface AlertChannel {
+  type: AlertChannelType;
+  label: string;
+  send: (alert: SecurityAlert) => Promise<void>;
+}
+
+export const CHANNEL_LABELS: Record<AlertChannelType, string> = {
+  webhook: 'Webhook',
+  smtp: 'Email',
+  notification: 'Notification',
+};
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+};
+
+export const createWebhookChannel = (config: WebhookChannelConfig): AlertChannel => ({
+  type: 'webhook',
+  label: CHANNEL_LABELS.webhook,
+  send: async (alert) => {
+    const image = alert.imageData ? splitDataUrl(alert.imageData) : null;
+    await postJson(config.url, {
+      event: alert.test ? 'vaultguard.test' : alert.duress ? 'vaultguard.duress' : 'vaultguard.intrusion',
+      priority: alert.duress ? 'high' : alert.knownSuspect ? 'low' : 'normal',
+      id: alert.id,
+      logId: alert.logId,
+      timestamp: new Date(alert.createdAt).toISOString(),
+      subject: alert.subject,
+      message: alert.message,
+      attemptCount: alert.attemptCount,
+      analysis: alert.analysis,
+      image: image && { mimeType: image.mimeType, data: image.base64 },
+    });
+  },
+});
+
+/**
+ * Browsers cannot speak SMTP, so email goes through an HTTP relay that accepts
+ * a JSON message (to/from/subject/text/attachments) and forwards it.
+ */
+export const createSmtpRelayChannel = (config: SmtpRelayChannelConfig, to: string): AlertChannel => ({
+  type: 'smtp',
+  label: CHANNEL_LABELS.smtp,
+  send: async (alert) => {
+    const image = alert.imageData ? splitDataUrl(alert.imageData) : null;
+    await postJson(
+      config.endpoint,
+      {
+        to,
+        from: config.from || undefined,
+        subject: alert.subject,
+        text: alert.message,
+        priority: alert.duress ? 'high' : alert.knownSuspect ? 'low' : undefined,
+        attachments: image
+          ? [{ filename: `intruder-${alert.createdAt}.${fileExtension(image.mimeType)}`, contentType: image.mimeType, content: image.base64, encoding: 'base64' }]
+          : [],
+      },
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+    );
+  },
+});
+
+export const createNotificationChannel = (_config: NotificationChannelConfig): AlertChannel => ({
+  type: 'notification',
+  label: CHANNEL_LABELS.notification,
+  send: async (alert) => {
+    if (!('Notification' in window)) throw new Error('Notifications are not supported in this browser');
+    if (Notification.permission !== 'granted') throw new Error('Notification permission not granted');
+    new Notification(alert.subject, {
+      body: alert.message,
+      icon: alert.imageData,
+      tag: alert.id,
+      requireInteraction: !alert.test && !alert.knownSuspect,
+      silent: alert.knownSuspect,
+    });
+  },
+});
+
+/**
+ * Builds the channel for a type if it is enabled and has enough configuration to send.
+ */
+export const createAlertChannel = (type: AlertChannelType, settings: AppSettings): AlertChannel | null => {
+  const { webhook, smtp, notification } = settings.alertChannels;
+  switch (type) {
+    case 'webhook':
+      return webhook.enabled && webhook.url ? createWebhookChannel(webhook) : null;
+    case 'smtp':
+      return smtp.enabled && smtp.endpoint && settings.alertEmail ? createSmtpRelayChannel(smtp, settings.alertEmail) : null;
+    case 'notification':
+      return notification.enabled ? createNotificationChannel(notification) : null;
+  }
+};
+
+export const getEnabledChannels = (settings: AppSettings): AlertChannel[] =>
+  (Object.keys(CHANNEL_LABELS) as AlertChannelType[])
+    .map(type => createAlertChannel(type, settings))
+    .filter((channel): channel is AlertChannel => channel !== null);
+
+const describeAnalysis = (analysis: ThreatAnalysis) =>
+  `Threat level ${analysis.threatLevel}/5 (${THREAT_LEVEL_LABELS[analysis.threatLevel]}). ` +
+  (analysis.summary ?? `Age ${analysis.ageRange.min}-${analysis.ageRange.max}, ${analysis.expression}, ${analysis.environment}.`);
+
+export const buildIntrusionAlert = (
+  attemptCount: number,
+  imageData?: string,
+  logId?: string,
+  analysis?: ThreatAnalysis,
+  knownSuspect = false
+): SecurityAlert => {
+  const createdAt = Date.now();
+  const attempts = `${attemptCount} failed attempt${attemptCount === 1 ? '' : 's'}`;
+  const message = `VaultGuard recorded ${attemptCount} failed unlock attempt${attemptCount === 1 ? '' : 's'} at ${new Date(createdAt).toLocaleString()}.` +
+    (knownSuspect ? ' The face resembles someone marked as known; check the photo to be sure.' : '');
+  return {
+    id: crypto.randomUUID(),
+    logId,
+    createdAt,
+    subject: knownSuspect ? `${attempts} by a known person` : `Intruder Alert! ${attempts} detected.`,
+    message: analysis ? `${message}\n\n${describeAnalysis(analysis)}` : message,
+    attemptCount,
+    imageData,
+    analysis,
+    knownSuspect: knownSuspect || undefined,
+  };
+};
+
+/**
+ * Raised when the duress passcode is entered: the owner is being made to unlock.
+ */
+export const buildDuressAlert = (imageData?: string, logId?: string): SecurityAlert => {
+  const createdAt = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    logId,
+    createdAt,
+    subject: 'URGENT: VaultGuard opened under duress',
+    message: `The duress passcode was entered at ${new Date(createdAt).toLocaleString()}. ` +
+      'The owner may be being forced to unlock; a decoy vault is being shown.',
+    attemptCount: 0,
+    imageData,
+    duress: true,
+  };
+};
+
+export const buildTestAlert = (): SecurityAlert => ({
+  id: crypto.randomUUID(),
+  createdAt: Date.now(),
+  subject: 'VaultGuard test alert',
+  message: 'This is a test alert from VaultGuard. If you received it, this channel is configured correctly.',
+  attemptCount: 0,
+  test: true,
+});
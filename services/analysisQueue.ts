@@ -0,0 +1,218 @@
+import { AnalysisSettings, ThreatAnalysis } from '../types';
+import { analyzeIntruderImages } from './analysisService';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from './idb';
+import { attachLogAnalysis, getLogMediaDataUrl } from './logRepository';
+import { requestBackgroundSync } from './offlineService';
+import { DEFAULT_PROFILE_ID } from './profileService';
+
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 6;
+const MAX_CONCURRENT = 2; // Requests in flight, not jobs
+// Captures of one profile analyzed in a single request
+const MAX_BATCH_SIZE = 4;
+
+// 'running' is never persisted: a job interrupted by a reload is simply queued again
+export type AnalysisJobStatus = 'queued' | 'running' | 'failed';
+
+/**
+ * A pending analysis of one log. Only ids are persisted; the photo is read from
+ * the sealed log store after unlock, or from memory if it was captured this session.
+ */
+export interface AnalysisJob {
+  id: string; // Log id
+  mediaId: string; // Face crop when there is one, otherwise the primary still
+  profileId?: string; // Whose provider and API key run it; absent on jobs from before profiles
+  status: AnalysisJobStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export interface AnalysisQueueEvent {
+  logId: string;
+  job: AnalysisJob | null; // null once the job has left the queue
+  analysis?: ThreatAnalysis;
+}
+
+type AnalysisQueueListener = (event: AnalysisQueueEvent) => void;
+
+const listeners = new Set<AnalysisQueueListener>();
+const running = new Set<string>();
+let activeRequests = 0;
+// Photos of captures made since the page loaded, so they can be analyzed while LOCKED
+const capturedImages = new Map<string, string>();
+
+/**
+ * Subscribes to job progress and finished analyses. Returns an unsubscribe function.
+ */
+export const subscribeToAnalysisQueue = (listener: AnalysisQueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = (event: AnalysisQueueEvent) => listeners.forEach(listener => listener(event));
+
+export const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+
+/**
+ * Queues (or re-queues) a log for analysis with the given profile's analysis
+ * settings. Pass the image data when it is at hand from a fresh capture;
+ * otherwise the job waits until the vault is unlocked.
+ */
+export const enqueueAnalysis = async (logId: string, mediaId: string, profileId: string, imageData?: string): Promise<void> => {
+  if (imageData) capturedImages.set(logId, imageData);
+  const job: AnalysisJob = {
+    id: logId,
+    mediaId,
+    profileId,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    createdAt: Date.now(),
+  };
+  await idbPut<AnalysisJob>(STORES.ANALYSIS_QUEUE, job);
+  notify({ logId, job });
+  if (!navigator.onLine) requestBackgroundSync();
+};
+
+export const listAnalysisQueue = async (): Promise<AnalysisJob[]> =>
+  (await idbGetAll<AnalysisJob>(STORES.ANALYSIS_QUEUE)).map(job =>
+    running.has(job.id) ? { ...job, status: 'running' } : job
+  );
+
+/**
+ * Drops a job, e.g. because its log was deleted.
+ */
+export const removeAnalysisJob = async (logId: string): Promise<void> => {
+  capturedImages.delete(logId);
+  await idbDelete(STORES.ANALYSIS_QUEUE, logId);
+  notify({ logId, job: null });
+};
+
+/**
+ * Resolves with the analysis of a log once it finishes, or null if it fails for
+ * good or takes longer than the timeout.
+ */
+export const waitForAnalysis = (logId: string, timeoutMs: number): Promise<ThreatAnalysis | null> =>
+  new Promise(resolve => {
+    const finish = (analysis: ThreatAnalysis | null) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(analysis);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    const unsubscribe = subscribeToAnalysisQueue(event => {
+      if (event.logId !== logId) return;
+      if (event.analysis) finish(event.analysis);
+      else if (!event.job || event.job.status === 'failed') finish(null);
+    });
+  });
+
+interface ReadyJob {
+  job: AnalysisJob;
+  imageData: string;
+}
+
+const finishJob = async (job: AnalysisJob, analysis: ThreatAnalysis): Promise<void> => {
+  // The log may have been deleted (or already analyzed by hand) while this was running
+  if (await idbGet<AnalysisJob>(STORES.ANALYSIS_QUEUE, job.id)) {
+    await attachLogAnalysis(job.id, analysis);
+  }
+  await idbDelete(STORES.ANALYSIS_QUEUE, job.id);
+  capturedImages.delete(job.id);
+  notify({ logId: job.id, job: null, analysis });
+};
+
+const failJob = async (job: AnalysisJob, err: unknown): Promise<void> => {
+  const attempts = job.attempts + 1;
+  const lastError = err instanceof Error ? err.message : String(err);
+  const updated: AnalysisJob = attempts >= MAX_ATTEMPTS
+    ? { ...job, attempts, lastError, status: 'failed' }
+    : { ...job, attempts, lastError, status: 'queued', nextAttemptAt: Date.now() + retryDelay(attempts) };
+  if (updated.status === 'failed') {
+    console.error(`Giving up on analysis of log ${job.id} after ${attempts} attempts:`, lastError);
+  }
+  await idbPut<AnalysisJob>(STORES.ANALYSIS_QUEUE, updated);
+  notify({ logId: job.id, job: updated });
+};
+
+// One request for the whole batch; if it fails, every job in it is retried
+const runBatch = async (batch: ReadyJob[], settings: AnalysisSettings): Promise<void> => {
+  activeRequests++;
+  batch.forEach(({ job }) => {
+    running.add(job.id);
+    notify({ logId: job.id, job: { ...job, status: 'running' } });
+  });
+
+  try {
+    let analyses: ThreatAnalysis[];
+    try {
+      analyses = await analyzeIntruderImages(settings, batch.map(ready => ready.imageData));
+    } catch (err) {
+      await Promise.all(batch.map(({ job }) => failJob(job, err)));
+      return;
+    }
+    await Promise.all(batch.map(({ job }, i) => finishJob(job, analyses[i])));
+  } finally {
+    activeRequests--;
+    batch.forEach(({ job }) => running.delete(job.id));
+  }
+};
+
+const groupIntoBatches = (ready: ReadyJob[]): ReadyJob[][] => {
+  const byProfile = new Map<string, ReadyJob[]>();
+  ready.forEach(entry => {
+    const profileId = entry.job.profileId ?? DEFAULT_PROFILE_ID;
+    byProfile.set(profileId, [...(byProfile.get(profileId) ?? []), entry]);
+  });
+  const batches: ReadyJob[][] = [];
+  byProfile.forEach(entries => {
+    for (let i = 0; i < entries.length; i += MAX_BATCH_SIZE) batches.push(entries.slice(i, i + MAX_BATCH_SIZE));
+  });
+  return batches;
+};
+
+/**
+ * Starts due jobs in batches of up to MAX_BATCH_SIZE captures of the same
+ * profile, one request each and at most MAX_CONCURRENT requests at a time, with
+ * the saved analysis settings of that profile; each finished batch pulls in the
+ * next. Jobs whose photo is unreadable (LOCKED, captured before a reload) are
+ * left for a flush that has the log key.
+ */
+export const flushAnalysisQueue = async (
+  settingsFor: (profileId: string) => AnalysisSettings,
+  logKey: CryptoKey | null
+): Promise<void> => {
+  try {
+    const slots = MAX_CONCURRENT - activeRequests;
+    if (slots <= 0) return;
+    const now = Date.now();
+    const due = (await idbGetAll<AnalysisJob>(STORES.ANALYSIS_QUEUE))
+      .filter(job => job.status === 'queued' && job.nextAttemptAt <= now && !running.has(job.id))
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+    const ready: ReadyJob[] = [];
+    for (const job of due) {
+      if (ready.length >= slots * MAX_BATCH_SIZE) break;
+      const imageData = capturedImages.get(job.id) ?? (logKey ? await getLogMediaDataUrl(job.mediaId, logKey) : null);
+      if (imageData) ready.push({ job, imageData });
+    }
+
+    for (const batch of groupIntoBatches(ready)) {
+      // Another flush may have started jobs while the photos were being read
+      const fresh = batch.filter(({ job }) => !running.has(job.id));
+      if (activeRequests >= MAX_CONCURRENT) break;
+      if (fresh.length === 0) continue;
+      runBatch(fresh, settingsFor(fresh[0].job.profileId ?? DEFAULT_PROFILE_ID))
+        .then(() => flushAnalysisQueue(settingsFor, logKey))
+        .catch(err => console.error("Failed to record analysis results", err));
+    }
+  } catch (err) {
+    console.error("Failed to flush analysis queue", err);
+  }
+};
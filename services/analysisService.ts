@@ -0,0 +1,190 @@
+import { AnalysisProviderType, AnalysisSettings, IncidentSummary, ThreatAnalysis, ThreatLevel } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { parseIncidentSummary, parseThreatAnalyses, parseThreatAnalysis } from './threatAnalysis';
+import { DEFAULT_ANALYSIS_PROMPT, INCIDENT_PROMPT, batchPrompt } from './prompts';
+
+type ProviderIncidentSummary = Omit<IncidentSummary, 'createdAt' | 'source'>;
+
+/**
+ * A model that turns intruder photos into threat analyses. Both methods reject
+ * when the provider is unreachable or its answer fails validation.
+ */
+export interface AnalysisProvider {
+  type: AnalysisProviderType;
+  label: string;
+  model: string;
+  analyze: (imageDataUrl: string) => Promise<ThreatAnalysis>;
+  // One request for several unrelated photos; one analysis per photo, in the same order
+  analyzeBatch: (imageDataUrls: string[]) => Promise<ThreatAnalysis[]>;
+  // One request covering every photo of an incident, with a text description of the attempts
+  summarizeIncident: (imageDataUrls: string[], context: string) => Promise<ProviderIncidentSummary>;
+}
+
+export const PROVIDER_LABELS: Record<AnalysisProviderType, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  offline: 'Offline stub',
+};
+
+export const DEFAULT_MODELS: Record<AnalysisProviderType, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llava',
+  offline: 'deterministic-v1',
+};
+
+// Providers without schema-constrained output get the expected shape spelled out
+const ANALYSIS_SHAPE_INSTRUCTIONS =
+  'Respond with only a JSON object of the form {"ageRange": {"min": number, "max": number}, "expression": string, "environment": string, "distinctiveFeatures": string[], "threatLevel": 1-5, "confidence": 0-1, "summary": string}.';
+const BATCH_SHAPE_INSTRUCTIONS =
+  'Respond with only a JSON object of the form {"analyses": [...]}, where each element has the form {"ageRange": {"min": number, "max": number}, "expression": string, "environment": string, "distinctiveFeatures": string[], "threatLevel": 1-5, "confidence": 0-1, "summary": string}.';
+const INCIDENT_SHAPE_INSTRUCTIONS =
+  'Respond with only a JSON object of the form {"narrative": string, "threatLevel": 1-5, "distinctPeople": number}.';
+
+const chatJson = async (endpoint: string, apiKey: string, model: string, text: string, imageDataUrls: string[]): Promise<unknown> => {
+  const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      response_format: { type: 'json_object' },
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text },
+          ...imageDataUrls.map(url => ({ type: 'image_url', image_url: { url } })),
+        ],
+      }],
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  const body = await response.json();
+  const content: unknown = body?.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') throw new Error("Analysis failed: No text returned.");
+
+  // Local models sometimes wrap the JSON in a code fence despite response_format
+  return JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API with image
+ * input, such as Ollama, LM Studio or vLLM running locally.
+ */
+export const createOpenAiCompatibleProvider = (endpoint: string, apiKey: string, model: string, prompt: string): AnalysisProvider => ({
+  type: 'openai',
+  label: PROVIDER_LABELS.openai,
+  model,
+  analyze: async (imageDataUrl) => {
+    const analysis = parseThreatAnalysis(
+      await chatJson(endpoint, apiKey, model, `${prompt}\n\n${ANALYSIS_SHAPE_INSTRUCTIONS}`, [imageDataUrl])
+    );
+    if (!analysis) throw new Error("Analysis failed: Response did not match the schema.");
+    return analysis;
+  },
+  analyzeBatch: async (imageDataUrls) => {
+    const analyses = parseThreatAnalyses(
+      await chatJson(endpoint, apiKey, model, `${prompt}\n\n${batchPrompt(imageDataUrls.length)}\n\n${BATCH_SHAPE_INSTRUCTIONS}`, imageDataUrls),
+      imageDataUrls.length
+    );
+    if (!analyses) throw new Error("Analysis failed: Response did not match the schema.");
+    return analyses;
+  },
+  summarizeIncident: async (imageDataUrls, context) => {
+    const summary = parseIncidentSummary(
+      await chatJson(endpoint, apiKey, model, `${INCIDENT_PROMPT}\n\n${context}\n\n${INCIDENT_SHAPE_INSTRUCTIONS}`, imageDataUrls)
+    );
+    if (!summary) throw new Error("Incident summary failed: Response did not match the schema.");
+    return summary;
+  },
+});
+
+const digestOf = async (text: string) =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const EXPRESSIONS = ['neutral', 'focused', 'confused', 'nervous', 'determined'];
+const ENVIRONMENTS = ['indoor office', 'home interior', 'dim room', 'outdoors', 'vehicle'];
+const FEATURES = ['glasses', 'beard', 'hat', 'hood up', 'earrings', 'headphones', 'face mask', 'tattoo'];
+
+// The same photo always yields the same result
+const offlineAnalysis = async (imageDataUrl: string): Promise<ThreatAnalysis> => {
+  const digest = await digestOf(imageDataUrl);
+  const minAge = 16 + (digest[0] % 40);
+  const threatLevel = (1 + (digest[2] % 5)) as ThreatLevel;
+  return {
+    ageRange: { min: minAge, max: minAge + 5 + (digest[1] % 10) },
+    expression: EXPRESSIONS[digest[3] % EXPRESSIONS.length],
+    environment: ENVIRONMENTS[digest[4] % ENVIRONMENTS.length],
+    distinctiveFeatures: FEATURES.filter((_, i) => digest[5 + i] % 4 === 0),
+    threatLevel,
+    confidence: Math.round((0.3 + (digest[13] % 60) / 100) * 100) / 100,
+    summary: `Offline stub analysis (threat ${threatLevel}/5).`,
+  };
+};
+
+/**
+ * Makes no network requests: derives a plausible analysis from a SHA-256 of the
+ * image, so the same photo always yields the same result. For development and
+ * tests only; the content has nothing to do with what is in the photo.
+ */
+export const createOfflineProvider = (model: string): AnalysisProvider => ({
+  type: 'offline',
+  label: PROVIDER_LABELS.offline,
+  model,
+  analyze: offlineAnalysis,
+  analyzeBatch: (imageDataUrls) => Promise.all(imageDataUrls.map(offlineAnalysis)),
+  summarizeIncident: async (imageDataUrls) => {
+    const digest = await digestOf(imageDataUrls.join('|'));
+    const threatLevel = (1 + (digest[0] % 5)) as ThreatLevel;
+    const distinctPeople = 1 + (digest[1] % 2);
+    return {
+      narrative: `Offline stub summary of ${imageDataUrls.length} photo${imageDataUrls.length === 1 ? '' : 's'}: ${distinctPeople === 1 ? 'one person' : 'two people'} made repeated unlock attempts (threat ${threatLevel}/5).`,
+      threatLevel,
+      distinctPeople,
+    };
+  },
+});
+
+/**
+ * Builds the provider selected in settings, filling in the default model and
+ * prompt where left empty. Clients are only created when analyze() is first used.
+ */
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  const model = settings.model.trim() || DEFAULT_MODELS[settings.provider];
+  const prompt = settings.prompt.trim() || DEFAULT_ANALYSIS_PROMPT;
+
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings.endpoint, settings.apiKey, model, prompt);
+    case 'offline':
+      return createOfflineProvider(model);
+    case 'gemini':
+      return createGeminiProvider(model, prompt);
+  }
+};
+
+/**
+ * Analyzes several captures in one request (a single one goes through analyze())
+ * and tags each result with where it came from. Results are in the order given.
+ */
+export const analyzeIntruderImages = async (settings: AnalysisSettings, imageDataUrls: string[]): Promise<ThreatAnalysis[]> => {
+  const provider = createAnalysisProvider(settings);
+  const analyses = imageDataUrls.length === 1
+    ? [await provider.analyze(imageDataUrls[0])]
+    : await provider.analyzeBatch(imageDataUrls);
+  return analyses.map(analysis => ({ ...analysis, source: { provider: provider.type, model: provider.model } }));
+};
+
+export const summarizeIncidentImages = async (
+  settings: AnalysisSettings,
+  imageDataUrls: string[],
+  context: string
+): Promise<IncidentSummary> => {
+  const provider = createAnalysisProvider(settings);
+  const summary = await provider.summarizeIncident(imageDataUrls, context);
+  return { ...summary, source: { provider: provider.type, model: provider.model }, createdAt: Date.now() };
+};
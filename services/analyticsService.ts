@@ -0,0 +1,162 @@
+import { AuditEvent, Incident, IntruderLog, ThreatLevel } from '../types';
+import { isStructuredAnalysis } from './threatAnalysis';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type AnalyticsRange = '7d' | '30d' | '90d' | 'all';
+
+export const ANALYTICS_RANGES: Record<AnalyticsRange, { label: string; days: number | null }> = {
+  '7d': { label: '7 days', days: 7 },
+  '30d': { label: '30 days', days: 30 },
+  '90d': { label: '90 days', days: 90 },
+  all: { label: 'All time', days: null },
+};
+
+// Past this many days the daily chart would have bars too thin to read, so it switches to weeks
+const MAX_DAILY_BUCKETS = 90;
+
+/**
+ * One unlock attempt. The audit log records every attempt, including failures
+ * below the capture threshold that never produce an intruder log.
+ */
+export interface Attempt {
+  timestamp: number;
+  success: boolean;
+}
+
+export interface AttemptBucket {
+  start: number; // Local midnight of the first day in the bucket
+  days: number;
+  successes: number;
+  failures: number;
+}
+
+export interface SecurityAnalytics {
+  from: number; // Start of the range; the first attempt for 'all'
+  attempts: number;
+  failures: number;
+  successes: number;
+  failureRate: number | null; // 0-1; null with no attempts
+  buckets: AttemptBucket[];
+  heatmap: number[][]; // Failures by [day of week, Sunday first][hour of day]
+  heatmapMax: number;
+  incidents: number;
+  meanTimeBetweenIncidentsMs: number | null; // null with fewer than two incidents
+  lastBreachAt: number | null;
+  threatLevels: Record<ThreatLevel, number>;
+  unanalyzed: number; // Logs in range with no structured analysis
+}
+
+/**
+ * Unlocks count as successes; wrong passcodes, failed passkey checks and wrong
+ * recovery codes count as failures. Unlocks with the duress passcode count as
+ * successes, as they look to whoever watched them.
+ */
+export const attemptsFromAudit = (events: AuditEvent[]): Attempt[] =>
+  events
+    .filter(e => e.type === 'unlock' || e.type === 'unlock_failed' || e.type === 'recovery_failed')
+    .map(e => ({ timestamp: e.timestamp, success: e.type === 'unlock' }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Calendar days rather than 24h steps, so daylight saving changes do not shift buckets
+const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const rangeStart = (range: AnalyticsRange, now: number, earliest: number | null): number => {
+  const days = ANALYTICS_RANGES[range].days;
+  if (days !== null) return addDays(startOfDay(now), 1 - days);
+  return startOfDay(earliest ?? now);
+};
+
+const bucketAttempts = (attempts: Attempt[], from: number, now: number): AttemptBucket[] => {
+  const totalDays = Math.max(1, Math.round((startOfDay(now) - from) / DAY_MS) + 1);
+  const daysPerBucket = totalDays > MAX_DAILY_BUCKETS ? 7 : 1;
+
+  const buckets: AttemptBucket[] = [];
+  for (let start = from; start <= now; start = addDays(start, daysPerBucket)) {
+    buckets.push({ start, days: daysPerBucket, successes: 0, failures: 0 });
+  }
+  let i = 0;
+  for (const attempt of attempts) {
+    while (i < buckets.length - 1 && attempt.timestamp >= buckets[i + 1].start) i++;
+    if (attempt.success) buckets[i].successes++;
+    else buckets[i].failures++;
+  }
+  return buckets;
+};
+
+const emptyThreatLevels = (): Record<ThreatLevel, number> => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+
+/**
+ * Everything the dashboard shows for one date range. Attempts come from the
+ * audit log; incidents, breach times and threat levels from the intruder logs.
+ */
+export const buildSecurityAnalytics = (
+  allAttempts: Attempt[],
+  logs: IntruderLog[],
+  incidents: Incident[],
+  range: AnalyticsRange,
+  now: number = Date.now()
+): SecurityAnalytics => {
+  const earliest = Math.min(allAttempts[0]?.timestamp ?? now, ...logs.map(l => l.timestamp));
+  const from = rangeStart(range, now, earliest);
+  const attempts = allAttempts.filter(a => a.timestamp >= from && a.timestamp <= now);
+  const failures = attempts.filter(a => !a.success).length;
+  const successes = attempts.length - failures;
+
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  attempts.filter(a => !a.success).forEach(a => {
+    const date = new Date(a.timestamp);
+    heatmap[date.getDay()][date.getHours()]++;
+  });
+
+  const inRangeLogs = logs.filter(l => l.timestamp >= from);
+  const threatLevels = emptyThreatLevels();
+  let unanalyzed = 0;
+  inRangeLogs.forEach(log => {
+    if (log.aiAnalysis && isStructuredAnalysis(log.aiAnalysis)) threatLevels[log.aiAnalysis.threatLevel]++;
+    else unanalyzed++;
+  });
+
+  // Mean of the gaps between consecutive incident starts
+  const starts = incidents.filter(i => i.startedAt >= from).map(i => i.startedAt).sort((a, b) => a - b);
+  const meanTimeBetweenIncidentsMs = starts.length >= 2
+    ? (starts[starts.length - 1] - starts[0]) / (starts.length - 1)
+    : null;
+
+  return {
+    from,
+    attempts: attempts.length,
+    failures,
+    successes,
+    failureRate: attempts.length > 0 ? failures / attempts.length : null,
+    buckets: bucketAttempts(attempts, from, now),
+    heatmap,
+    heatmapMax: Math.max(0, ...heatmap.flat()),
+    incidents: starts.length,
+    meanTimeBetweenIncidentsMs,
+    lastBreachAt: inRangeLogs.reduce<number | null>((latest, l) => Math.max(latest ?? 0, l.timestamp), null),
+    threatLevels,
+    unanalyzed,
+  };
+};
+
+/**
+ * A coarse human duration for intervals of minutes to months ("45 min", "3.5 h", "12 days").
+ */
+export const formatInterval = (ms: number): string => {
+  if (ms < HOUR_MS) return `${Math.max(1, Math.round(ms / 60000))} min`;
+  if (ms < DAY_MS) return `${(ms / HOUR_MS).toFixed(1).replace(/\.0$/, '')} h`;
+  const days = ms / DAY_MS;
+  return `${days < 10 ? days.toFixed(1).replace(/\.0$/, '') : Math.round(days)} days`;
+};
@@ -0,0 +1,174 @@
+import { AuditDetails, AuditEvent, AuditEventType, AuditIssue, AuditVerification } from '../types';
+import { SealedBox, bytesToBase64, openSealedJson, sealJson, sha256Hex } from './cryptoService';
+import { STORES, idbGetAll, runTransaction } from './idb';
+import { getLogPublicKey } from './logKeyService';
+
+// Last entry written, kept outside IndexedDB so removing entries from the end is noticed
+const AUDIT_HEAD_STORAGE_KEY = 'vault_guard_audit_head';
+const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * What is persisted for an event. The type and time stay in the clear so events
+ * can be appended while LOCKED; the details are sealed to the log public key.
+ * Each entry's hash covers the sealed bytes and the previous entry's hash, so the
+ * chain can be verified without decrypting anything.
+ */
+interface StoredAuditEntry {
+  seq: number;
+  timestamp: number;
+  type: AuditEventType;
+  prevHash: string;
+  hash: string;
+  sealed?: SealedBox;
+  details?: AuditDetails; // Plaintext, only for events recorded before a log key pair existed
+}
+
+interface AuditHead {
+  seq: number;
+  hash: string;
+}
+
+// Gets the new event with its details in the clear, so listeners need not decrypt the log again
+type AuditListener = (event: AuditEvent) => void;
+
+const listeners = new Set<AuditListener>();
+// Appends run one at a time; each needs the hash of the one before it
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Subscribes to newly recorded events. Returns an unsubscribe function.
+ */
+export const subscribeToAuditLog = (listener: AuditListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const readHead = (): AuditHead | null => {
+  const saved = localStorage.getItem(AUDIT_HEAD_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse audit head", e);
+    return null;
+  }
+};
+
+const hashEntry = (entry: Omit<StoredAuditEntry, 'hash'>): Promise<string> => {
+  const body = entry.sealed
+    ? { epk: entry.sealed.epk, iv: bytesToBase64(entry.sealed.iv), data: bytesToBase64(entry.sealed.data) }
+    : entry.details ?? {};
+  const canonical = JSON.stringify([entry.seq, entry.timestamp, entry.type, entry.prevHash, body]);
+  return sha256Hex(new TextEncoder().encode(canonical));
+};
+
+const readLastEntry = (): Promise<StoredAuditEntry | undefined> =>
+  runTransaction([STORES.AUDIT_LOG], 'readonly', tx => {
+    const last: { entry?: StoredAuditEntry } = {};
+    const cursor = tx.objectStore(STORES.AUDIT_LOG).openCursor(null, 'prev');
+    cursor.onsuccess = () => {
+      last.entry = cursor.result?.value;
+    };
+    return last;
+  }).then(last => last.entry);
+
+const append = async (type: AuditEventType, details: AuditDetails): Promise<void> => {
+  // If the newest entries were removed, continue from the head so the gap stays visible
+  const last = await readLastEntry();
+  const head = readHead();
+  const previous = head && head.seq > (last?.seq ?? 0) ? head : last;
+
+  const publicKey = await getLogPublicKey();
+  const entry: Omit<StoredAuditEntry, 'hash'> = {
+    seq: (previous?.seq ?? 0) + 1,
+    timestamp: Date.now(),
+    type,
+    prevHash: previous?.hash ?? GENESIS_HASH,
+    ...(publicKey ? { sealed: await sealJson(publicKey, details) } : { details }),
+  };
+  const hash = await hashEntry(entry);
+
+  // add() rather than put(): an existing entry is never overwritten
+  await runTransaction([STORES.AUDIT_LOG], 'readwrite', tx => {
+    tx.objectStore(STORES.AUDIT_LOG).add({ ...entry, hash });
+  });
+  localStorage.setItem(AUDIT_HEAD_STORAGE_KEY, JSON.stringify({ seq: entry.seq, hash }));
+  const event: AuditEvent = { seq: entry.seq, timestamp: entry.timestamp, type, details, hash };
+  listeners.forEach(listener => listener(event));
+};
+
+/**
+ * Appends an event to the audit log. Works while LOCKED. Never shown to an
+ * intruder, so callers do not wait on it beyond logging failures.
+ */
+export const recordAuditEvent = (type: AuditEventType, details: AuditDetails = {}): Promise<void> => {
+  const appended = appendQueue.then(() => append(type, details));
+  appendQueue = appended.catch(() => undefined);
+  return appended;
+};
+
+/**
+ * Decrypted events, newest first. Entries that no longer decrypt are listed with
+ * empty details; verifyAuditLog() reports why.
+ */
+export const listAuditEvents = async (privateKey: CryptoKey): Promise<AuditEvent[]> => {
+  const entries = await idbGetAll<StoredAuditEntry>(STORES.AUDIT_LOG);
+  const events = await Promise.all(
+    entries.map(async ({ seq, timestamp, type, hash, sealed, details }): Promise<AuditEvent> => ({
+      seq,
+      timestamp,
+      type,
+      hash,
+      details: sealed
+        ? await openSealedJson<AuditDetails>(privateKey, sealed).catch(err => {
+            console.error(`Failed to open audit entry ${seq}`, err);
+            return {};
+          })
+        : details ?? {},
+    }))
+  );
+  return events.sort((a, b) => b.seq - a.seq);
+};
+
+const describeRange = (from: number, to: number) =>
+  from === to ? `Entry ${from} is missing` : `Entries ${from}–${to} are missing`;
+
+/**
+ * Walks the chain from the first entry. Flags missing sequence numbers, entries
+ * whose content no longer matches their hash, links that do not follow from the
+ * previous entry, and entries removed from the end.
+ *
+ * This detects tampering, it does not prevent it: someone with access to this
+ * browser profile could rebuild the whole chain and its head.
+ */
+export const verifyAuditLog = async (): Promise<AuditVerification> => {
+  const entries = (await idbGetAll<StoredAuditEntry>(STORES.AUDIT_LOG)).sort((a, b) => a.seq - b.seq);
+  const issues: AuditIssue[] = [];
+  let expectedSeq = 1;
+  let prevHash = GENESIS_HASH;
+
+  for (const entry of entries) {
+    if (entry.seq !== expectedSeq) {
+      issues.push({ seq: entry.seq, kind: 'gap', message: describeRange(expectedSeq, entry.seq - 1) });
+    } else if (entry.prevHash !== prevHash) {
+      issues.push({ seq: entry.seq, kind: 'broken_link', message: `Entry ${entry.seq} does not follow from entry ${entry.seq - 1}` });
+    }
+    const { hash, ...content } = entry;
+    if (await hashEntry(content) !== hash) {
+      issues.push({ seq: entry.seq, kind: 'edited', message: `Entry ${entry.seq} was changed after it was recorded` });
+    }
+    expectedSeq = entry.seq + 1;
+    prevHash = hash;
+  }
+
+  const head = readHead();
+  if (head && head.seq >= expectedSeq) {
+    issues.push({ seq: head.seq, kind: 'truncated', message: describeRange(expectedSeq, head.seq) });
+  } else if (head && entries.find(e => e.seq === head.seq)?.hash !== head.hash) {
+    issues.push({ seq: head.seq, kind: 'edited', message: `The chain was rebuilt after entry ${head.seq} was recorded` });
+  }
+
+  return { checkedAt: Date.now(), entries: entries.length, issues };
+};
@@ -0,0 +1,139 @@
+import { AutoLockPolicy, AutoLockReason } from '../types';
+
+const TICK_MS = 1000;
+// Background tabs have their timers throttled to about once a minute, so only a
+// much longer stall is taken as the device having been asleep
+const SLEEP_DRIFT_MS = 2 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+// Input that can only come from someone back on the page after a detour
+const RETURN_EVENTS = ['pointerdown', 'keydown'] as const;
+// However a detour ends, the hiding, blur and sleep triggers are back after this long
+const MAX_PAUSE_MS = 5 * 60 * 1000;
+
+// App-initiated detours in progress; while any is open, hiding, blur and sleep do not lock
+let pauses = 0;
+const resumeListeners = new Set<() => void>();
+
+export interface AutoLockCallbacks {
+  // Milliseconds until an inactivity lock while the warning is showing, otherwise null
+  onCountdown: (remainingMs: number | null) => void;
+  onLock: (reason: AutoLockReason) => void;
+}
+
+/**
+ * Watches for the configured auto-lock triggers and calls onLock at most once.
+ * Inactivity counts down visibly first; hiding, blur and sleep lock immediately,
+ * since nobody is looking at the screen. Returns a function that stops watching.
+ */
+export const watchAutoLock = (policy: AutoLockPolicy, { onCountdown, onLock }: AutoLockCallbacks): (() => void) => {
+  let lastActivity = Date.now();
+  let lastTick = lastActivity;
+  let counting = false;
+  let locked = false;
+
+  const lock = (reason: AutoLockReason) => {
+    if (locked) return;
+    locked = true;
+    stop();
+    onLock(reason);
+  };
+
+  const setCountdown = (remainingMs: number | null) => {
+    if (remainingMs === null && !counting) return;
+    counting = remainingMs !== null;
+    onCountdown(remainingMs);
+  };
+
+  const handleActivity = () => {
+    lastActivity = Date.now();
+    setCountdown(null);
+  };
+
+  const tick = () => {
+    const now = Date.now();
+    const drift = now - lastTick - TICK_MS;
+    lastTick = now;
+    // A print dialog stalls the page's timers much like sleep does
+    if (policy.onSleep && drift > SLEEP_DRIFT_MS && pauses === 0) return lock('sleep');
+
+    if (policy.idleMinutes <= 0) return;
+    const remaining = policy.idleMinutes * 60 * 1000 - (now - lastActivity);
+    if (remaining <= 0) return lock('idle');
+    setCountdown(remaining <= policy.warningSeconds * 1000 ? remaining : null);
+  };
+
+  const handleVisibility = () => {
+    if (policy.onHidden && document.visibilityState === 'hidden' && pauses === 0) lock('hidden');
+  };
+
+  const handleBlur = () => {
+    if (policy.onBlur && pauses === 0) lock('blur');
+  };
+
+  // Time spent in the detour does not count as a stall once it is over
+  const handleResume = () => {
+    lastTick = Date.now();
+  };
+
+  const timer = setInterval(tick, TICK_MS);
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener('blur', handleBlur);
+  resumeListeners.add(handleResume);
+
+  const stop = () => {
+    clearInterval(timer);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('blur', handleBlur);
+    resumeListeners.delete(handleResume);
+  };
+
+  return () => {
+    stop();
+    setCountdown(null);
+  };
+};
+
+/**
+ * Suspends the hiding, blur and sleep triggers while the app itself sends the
+ * user elsewhere (the print window, the system file picker). Inactivity still
+ * counts. Returns a function that resumes; calling it more than once is harmless.
+ */
+export const pauseAutoLock = (): (() => void) => {
+  pauses++;
+  let resumed = false;
+  return () => {
+    if (resumed) return;
+    resumed = true;
+    pauses--;
+    if (pauses === 0) resumeListeners.forEach(listener => listener());
+  };
+};
+
+/**
+ * Pauses until the user is back in this window: it regains focus, becomes visible
+ * again, or sees a click or key press. Some browsers open print and the file
+ * picker without taking focus, so the pause also ends after MAX_PAUSE_MS at most.
+ * The returned function resumes early, such as when the detour never started.
+ */
+export const pauseAutoLockUntilReturn = (): (() => void) => {
+  const resume = pauseAutoLock();
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') finish();
+  };
+  const finish = () => {
+    clearTimeout(timeout);
+    window.removeEventListener('focus', finish);
+    RETURN_EVENTS.forEach(event => window.removeEventListener(event, finish));
+    document.removeEventListener('visibilitychange', handleVisibility);
+    resume();
+  };
+  const timeout = setTimeout(finish, MAX_PAUSE_MS);
+  window.addEventListener('focus', finish);
+  RETURN_EVENTS.forEach(event => window.addEventListener(event, finish));
+  document.addEventListener('visibilitychange', handleVisibility);
+  return finish;
+};
@@ -0,0 +1,172 @@
+import {
+  WrappedKey,
+  base64ToBytes,
+  bytesToBase64,
+  decryptJson,
+  encryptJson,
+  generateDataKey,
+  unwrapDataKey,
+  wrapDataKey,
+} from './cryptoService';
+import { STORES, StoreName, runTransaction, idbGetAll } from './idb';
+
+const BACKUP_FORMAT = 'vaultguard-backup';
+const BACKUP_VERSION = 1;
+
+const STORAGE_PREFIX = 'vault_guard_';
+// Recent failures belong to this device, not to the vault being moved, and a
+// passkey is bound to an authenticator that may not be present on the new browser.
+// The evidence signing key identifies the device that exported, so it stays behind too.
+// Matched by suffix, since every profile has its own.
+const DEVICE_ONLY_SUFFIXES = ['_lockout', '_passkey', '_signing_key'];
+
+// The alert outbox and analysis queue are per-browser work, not data
+const BACKUP_STORES: StoreName[] = [
+  STORES.VAULT_ITEMS,
+  STORES.INTRUDER_LOGS,
+  STORES.LOG_MEDIA,
+  STORES.SUSPECTS,
+  STORES.INCIDENT_REPORTS,
+  STORES.AUDIT_LOG,
+];
+
+/**
+ * Everything needed to rebuild the vault elsewhere: the localStorage entries
+ * (profiles, passcode verifiers, wrapped keys, settings, recovery codes, audit head) and the
+ * IndexedDB records exactly as stored. Records stay sealed, so the restored vault
+ * opens with the same passcode as the original.
+ */
+interface BackupContents {
+  createdAt: number;
+  storage: Record<string, string>;
+  stores: Record<string, unknown[]>;
+}
+
+/**
+ * The file written to disk. The contents are encrypted with a fresh data key,
+ * wrapped by a key derived from the backup passphrase.
+ */
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  createdAt: number;
+  key: WrappedKey;
+  iv: string; // Base64
+  data: string; // Base64
+}
+
+// JSON cannot carry binary values, so they are tagged and Base64-encoded
+type Encoded =
+  | { $blob: string; type: string }
+  | { $buffer: string }
+  | { $bytes: string };
+
+const encodeValue = async (value: unknown): Promise<unknown> => {
+  if (value instanceof Blob) return { $blob: bytesToBase64(await value.arrayBuffer()), type: value.type };
+  if (value instanceof ArrayBuffer) return { $buffer: bytesToBase64(value) };
+  if (value instanceof Uint8Array) return { $bytes: bytesToBase64(value) };
+  if (Array.isArray(value)) return Promise.all(value.map(encodeValue));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await encodeValue(v)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (!value || typeof value !== 'object') return value;
+
+  const tagged = value as Encoded;
+  if ('$blob' in tagged) return new Blob([base64ToBytes(tagged.$blob)], { type: tagged.type });
+  if ('$buffer' in tagged) return base64ToBytes(tagged.$buffer).buffer;
+  if ('$bytes' in tagged) return base64ToBytes(tagged.$bytes);
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decodeValue(v)]));
+};
+
+const isBackupFile = (value: unknown): value is BackupFile =>
+  typeof value === 'object' && value !== null && (value as BackupFile).format === BACKUP_FORMAT;
+
+// A passkey that needs the passcode too holds the only copy of the vault key the
+// passcode opens (the stored one is just a marker), so it goes with the vault.
+// On a browser without the authenticator the recovery code still gets in.
+const holdsOnlyPasscodeCopy = (key: string): boolean => {
+  if (!key.endsWith('_passkey')) return false;
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? '{}').requirePasscode === true;
+  } catch {
+    return false;
+  }
+};
+
+const backedUpStorageKeys = (): string[] =>
+  Object.keys(localStorage).filter(key =>
+    key.startsWith(STORAGE_PREFIX)
+    && (!DEVICE_ONLY_SUFFIXES.some(suffix => key.endsWith(suffix)) || holdsOnlyPasscodeCopy(key))
+  );
+
+/**
+ * Encrypts a full copy of the vault with the backup passphrase. The decoy vault
+ * writes a file of the same format with nothing in it.
+ */
+export const createBackup = async (passphrase: string, decoy: boolean = false): Promise<Blob> => {
+  const storage = decoy ? {} : Object.fromEntries(backedUpStorageKeys().map(key => [key, localStorage.getItem(key)!]));
+  const stores: Record<string, unknown[]> = {};
+  for (const store of BACKUP_STORES) {
+    stores[store] = decoy ? [] : await Promise.all((await idbGetAll<unknown>(store)).map(encodeValue));
+  }
+  const contents: BackupContents = { createdAt: Date.now(), storage, stores };
+
+  const dataKey = await generateDataKey();
+  const encrypted = await encryptJson(dataKey, contents);
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: contents.createdAt,
+    key: await wrapDataKey(dataKey, passphrase),
+    iv: bytesToBase64(encrypted.iv),
+    data: bytesToBase64(encrypted.data),
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+/**
+ * Replaces this browser's vault with the one in the backup. Everything stored
+ * locally is overwritten, so this is only offered before a passcode is set up.
+ * Rejects with a readable message if the file or passphrase is wrong.
+ */
+export const restoreBackup = async (file: Blob, passphrase: string): Promise<void> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This is not a VaultGuard backup file.');
+  }
+  if (!isBackupFile(parsed)) throw new Error('This is not a VaultGuard backup file.');
+  if (parsed.version !== BACKUP_VERSION) throw new Error('This backup was made by a newer version of VaultGuard.');
+
+  let contents: BackupContents;
+  try {
+    const dataKey = await unwrapDataKey(parsed.key, passphrase);
+    contents = await decryptJson<BackupContents>(dataKey, {
+      iv: base64ToBytes(parsed.iv),
+      data: base64ToBytes(parsed.data).buffer,
+    });
+  } catch {
+    throw new Error('Wrong backup passphrase, or the file is damaged.');
+  }
+
+  await runTransaction(BACKUP_STORES, 'readwrite', tx => {
+    for (const store of BACKUP_STORES) {
+      const objectStore = tx.objectStore(store);
+      objectStore.clear();
+      (contents.stores[store] ?? []).forEach(record => objectStore.put(decodeValue(record)));
+    }
+  });
+
+  backedUpStorageKeys().forEach(key => localStorage.removeItem(key));
+  Object.entries(contents.storage).forEach(([key, value]) => localStorage.setItem(key, value));
+};
+
+export const backupFileName = (now: number = Date.now()) =>
+  `vaultguard-backup-${new Date(now).toISOString().slice(0, 10)}.vgbackup`;
@@ -0,0 +1,117 @@
+import { CameraStatus, CaptureResolution, CaptureSettings } from '../types';
+
+export const CAPTURE_RESOLUTIONS: Record<CaptureResolution, { label: string; width: number; height: number }> = {
+  low: { label: '640×480', width: 640, height: 480 },
+  medium: { label: '1280×720', width: 1280, height: 720 },
+  high: { label: '1920×1080', width: 1920, height: 1080 },
+};
+
+export const MIN_JPEG_QUALITY = 0.5;
+export const MAX_JPEG_QUALITY = 0.95;
+
+// Retries after a camera drops out, backing off so an unplugged device is not polled constantly
+const RECONNECT_DELAYS_MS = [1000, 3000, 10000, 30000];
+
+export interface CameraInfo {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * The chosen camera is only preferred, not required, so a missing device falls
+ * back to whatever camera is left instead of failing.
+ */
+const cameraConstraints = (capture: CaptureSettings): MediaTrackConstraints => {
+  const { width, height } = CAPTURE_RESOLUTIONS[capture.resolution] ?? CAPTURE_RESOLUTIONS.low;
+  return {
+    ...(capture.deviceId ? { deviceId: { ideal: capture.deviceId } } : { facingMode: 'user' }),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+};
+
+export const openCamera = (capture: CaptureSettings): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({ video: cameraConstraints(capture), audio: false });
+
+export const stopStream = (stream: MediaStream): void => {
+  stream.getTracks().forEach(track => track.stop());
+};
+
+/**
+ * Lists the video inputs. Browsers hide labels until camera permission has been
+ * granted, so unnamed cameras are numbered instead.
+ */
+export const listCameras = async (): Promise<CameraInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+};
+
+/**
+ * What a getUserMedia failure means for monitoring: the user (or a policy)
+ * blocked the camera, or there is no usable camera right now.
+ */
+export const failureStatus = (err: unknown): CameraStatus =>
+  err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'SecurityError') ? 'denied' : 'unavailable';
+
+export const describeCameraError = (err: unknown): string => {
+  if (!(err instanceof DOMException)) return 'The camera could not be started.';
+  switch (err.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera access is blocked. Allow it in the browser\'s site settings.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera was found.';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'The camera is in use by another app or could not be opened.';
+    default:
+      return `The camera could not be started (${err.name}).`;
+  }
+};
+
+export const reconnectDelay = (attempt: number): number =>
+  RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+
+/**
+ * Calls onLost once when the stream stops delivering video: a track ends (the
+ * device was unplugged, or another app or the OS took it) or its device
+ * disappears from the device list. Returns a function that stops watching.
+ */
+export const watchStream = (stream: MediaStream, onLost: (reason: string) => void): (() => void) => {
+  const tracks = stream.getVideoTracks();
+  let lost = false;
+  const report = (reason: string) => {
+    if (lost) return;
+    lost = true;
+    stop();
+    onLost(reason);
+  };
+
+  const onEnded = () => report('Video track ended');
+  const onDeviceChange = async () => {
+    try {
+      const present = new Set((await navigator.mediaDevices.enumerateDevices()).map(device => device.deviceId));
+      const gone = tracks.some(track => {
+        const id = track.getSettings().deviceId;
+        return id !== undefined && !present.has(id);
+      });
+      if (gone) report('Camera was disconnected');
+    } catch (e) {
+      console.error("Failed to check camera devices", e);
+    }
+  };
+
+  const stop = () => {
+    tracks.forEach(track => track.removeEventListener('ended', onEnded));
+    navigator.mediaDevices?.removeEventListener('devicechange', onDeviceChange);
+  };
+
+  tracks.forEach(track => track.addEventListener('ended', onEnded));
+  navigator.mediaDevices?.addEventListener('devicechange', onDeviceChange);
+  if (tracks.length === 0 || tracks.every(track => track.readyState === 'ended')) report('Video track ended');
+  return stop;
+};
@@ -0,0 +1,241 @@
+import { BoundingBox, CaptureSettings, FaceDetection, MediaKind } from '../types';
+import { dataUrlToBlob } from './mediaUtils';
+import { detectFace } from './faceDetectionService';
+import { perceptualHash } from './suspectService';
+
+const SHARPNESS_SAMPLE_WIDTH = 160;
+const CLIP_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+// Outside burst mode, keep grabbing frames until a face shows up or we give up
+const FACE_RETRY_FRAMES = 5;
+const FACE_RETRY_INTERVAL_MS = 250;
+
+// Crops include some margin around the face and are kept small for analysis
+const FACE_CROP_MARGIN = 0.3;
+const FACE_CROP_MAX_SIZE = 256;
+
+/**
+ * A still or clip fresh from the camera, before it is sealed into the log store.
+ */
+export interface CapturedMedia {
+  blob: Blob;
+  kind: MediaKind;
+  capturedAt: number;
+  sharpness?: number;
+  primary?: boolean; // The still used for alerts and the gallery thumbnail
+  faceCrop?: boolean; // The face cut out of the primary still
+}
+
+export interface CaptureResult {
+  media: CapturedMedia[];
+  face?: FaceDetection;
+  faceHash?: string;
+}
+
+interface FaceCrop {
+  media: CapturedMedia;
+  hash: string;
+}
+
+interface CapturedFrame {
+  still: CapturedMedia;
+  face: FaceDetection | null;
+  crop: FaceCrop | null;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isStreaming = (video: HTMLVideoElement) =>
+  video.srcObject !== null && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0;
+
+const encodeJpeg = (canvas: HTMLCanvasElement, quality: number) => dataUrlToBlob(canvas.toDataURL('image/jpeg', quality));
+
+/**
+ * Scores focus as the variance of the Laplacian over a downscaled grayscale copy.
+ * Blurry frames have few edges, so the variance is low.
+ */
+export const measureSharpness = (source: HTMLCanvasElement): number => {
+  const width = SHARPNESS_SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round(source.height * (width / source.width)));
+  const sample = document.createElement('canvas');
+  sample.width = width;
+  sample.height = height;
+  const context = sample.getContext('2d', { willReadFrequently: true });
+  if (!context) return 0;
+
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const cropFace = (source: HTMLCanvasElement, box: BoundingBox, capturedAt: number, quality: number): FaceCrop | null => {
+  const marginX = box.width * FACE_CROP_MARGIN;
+  const marginY = box.height * FACE_CROP_MARGIN;
+  const x = Math.max(0, box.x - marginX);
+  const y = Math.max(0, box.y - marginY);
+  const width = Math.min(source.width, box.x + box.width + marginX) - x;
+  const height = Math.min(source.height, box.y + box.height + marginY) - y;
+  if (width <= 0 || height <= 0) return null;
+
+  const scale = Math.min(1, FACE_CROP_MAX_SIZE / Math.max(width, height));
+  const crop = document.createElement('canvas');
+  crop.width = Math.round(width * scale);
+  crop.height = Math.round(height * scale);
+  const context = crop.getContext('2d');
+  if (!context) return null;
+
+  context.drawImage(source, x, y, width, height, 0, 0, crop.width, crop.height);
+  return {
+    media: { blob: encodeJpeg(crop, quality), kind: 'image', capturedAt, faceCrop: true },
+    hash: perceptualHash(crop),
+  };
+};
+
+/**
+ * Grabs the current video frame onto its own canvas (so overlapping captures never
+ * share one), encodes it, and runs face detection on it.
+ */
+const captureFrame = async (video: HTMLVideoElement, scoreSharpness: boolean, quality: number): Promise<CapturedFrame | null> => {
+  if (!isStreaming(video)) return null;
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const capturedAt = Date.now();
+  const face = await detectFace(canvas).catch(err => {
+    console.error("Face detection failed", err);
+    return null;
+  });
+  return {
+    still: {
+      blob: encodeJpeg(canvas, quality),
+      kind: 'image',
+      capturedAt,
+      sharpness: scoreSharpness ? measureSharpness(canvas) : undefined,
+    },
+    face,
+    crop: face ? cropFace(canvas, face.box, capturedAt, quality) : null,
+  };
+};
+
+/**
+ * Takes several frames spread over a short window, since a single frame at the
+ * moment of failure is often blurred.
+ */
+const captureBurstFrames = async (video: HTMLVideoElement, settings: CaptureSettings): Promise<CapturedFrame[]> => {
+  const frames: CapturedFrame[] = [];
+  const interval = settings.burstFrames > 1 ? settings.burstDurationMs / (settings.burstFrames - 1) : 0;
+
+  for (let i = 0; i < settings.burstFrames; i++) {
+    if (i > 0) await wait(interval);
+    const frame = await captureFrame(video, true, settings.jpegQuality);
+    if (frame) frames.push(frame);
+  }
+  return frames;
+};
+
+const captureUntilFace = async (video: HTMLVideoElement, quality: number): Promise<CapturedFrame[]> => {
+  const frames: CapturedFrame[] = [];
+  for (let i = 0; i < FACE_RETRY_FRAMES; i++) {
+    if (i > 0) await wait(FACE_RETRY_INTERVAL_MS);
+    const frame = await captureFrame(video, false, quality);
+    if (!frame) break;
+    frames.push(frame);
+    if (frame.face) break;
+  }
+  return frames;
+};
+
+// Frames with a face win; among those (or all, if none has one) the sharpest wins
+const pickPrimary = (frames: CapturedFrame[]): CapturedFrame | null => {
+  const withFace = frames.filter(f => f.face);
+  const candidates = withFace.length > 0 ? withFace : frames;
+  return candidates.reduce<CapturedFrame | null>(
+    (best, frame) => (!best || (frame.still.sharpness ?? 0) > (best.still.sharpness ?? 0) ? frame : best),
+    null
+  );
+};
+
+/**
+ * Records a short clip from the camera stream. Resolves with whatever was
+ * recorded if the stream ends early (for example because the vault was unlocked).
+ */
+export const recordClip = (stream: MediaStream, seconds: number): Promise<CapturedMedia | null> => {
+  if (typeof MediaRecorder === 'undefined') return Promise.resolve(null);
+  const mimeType = CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+  return new Promise(resolve => {
+    const chunks: Blob[] = [];
+    const capturedAt = Date.now();
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (err) {
+      console.error("MediaRecorder unavailable", err);
+      resolve(null);
+      return;
+    }
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      if (chunks.length === 0) return resolve(null);
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' });
+      resolve({ blob, kind: 'video', capturedAt });
+    };
+    recorder.onerror = () => recorder.state !== 'inactive' && recorder.stop();
+
+    recorder.start();
+    setTimeout(() => recorder.state !== 'inactive' && recorder.stop(), seconds * 1000);
+  });
+};
+
+/**
+ * Captures everything for one breach according to the capture mode. Exactly one
+ * still is marked primary; if a face was found in it, a crop is added as well.
+ * The clip (in video mode) records in parallel with the still frames.
+ */
+export const captureIntrusion = async (
+  video: HTMLVideoElement,
+  stream: MediaStream | null,
+  settings: CaptureSettings
+): Promise<CaptureResult> => {
+  const clip = settings.mode === 'video' && stream ? recordClip(stream, settings.clipSeconds) : Promise.resolve(null);
+  const frames = settings.mode === 'burst' ? await captureBurstFrames(video, settings) : await captureUntilFace(video, settings.jpegQuality);
+  const primary = pickPrimary(frames);
+
+  const media: CapturedMedia[] = [];
+  if (primary) {
+    primary.still.primary = true;
+    media.push(...(settings.mode === 'burst' ? frames.map(f => f.still) : [primary.still]));
+    if (primary.crop) media.push(primary.crop.media);
+  }
+
+  const recorded = await clip;
+  if (recorded && primary) media.push(recorded);
+  return { media, face: primary?.face ?? undefined, faceHash: primary?.crop?.hash };
+};
@@ -0,0 +1,165 @@
+import { PasscodeMode, PasscodePolicy } from '../types';
+import {
+  PBKDF2_ITERATIONS,
+  base64ToBytes,
+  bytesToBase64,
+  constantTimeEqual,
+  derivePasscodeHash,
+  randomBytes,
+} from './cryptoService';
+import { storeVaultKey } from './vaultService';
+import { getPasskeyInfo, setPasskeyRequiresPasscode } from './passkeyService';
+import { profileStorageKey } from './profileService';
+
+const pinStorageKey = (profileId?: string) => profileStorageKey('pin', profileId);
+const policyStorageKey = (profileId?: string) => profileStorageKey('passcode_policy', profileId);
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const MAX_PASSPHRASE_LENGTH = 128;
+
+// Installs from before the policy existed always used a 4-digit PIN
+export const DEFAULT_PASSCODE_POLICY: PasscodePolicy = {
+  mode: 'pin',
+  length: MIN_PIN_LENGTH,
+};
+
+export const CREDENTIAL_VERSION = 1;
+
+/**
+ * What is persisted instead of the passcode: a salted PBKDF2 hash tagged with a
+ * format version so the scheme can be upgraded without locking users out.
+ */
+export interface PasscodeVerifier {
+  version: typeof CREDENTIAL_VERSION;
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // Base64
+  hash: string; // Base64
+}
+
+const encoder = new TextEncoder();
+
+const isVerifier = (value: unknown): value is PasscodeVerifier =>
+  typeof value === 'object' && value !== null && (value as PasscodeVerifier).version === CREDENTIAL_VERSION;
+
+/**
+ * Reads the stored credential. Returns a verifier, or the raw string for
+ * installs that still hold a plaintext PIN from before hashing was introduced.
+ */
+const readCredential = (): PasscodeVerifier | string | null => {
+  const saved = localStorage.getItem(pinStorageKey());
+  if (saved === null) return null;
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    return isVerifier(parsed) ? parsed : saved;
+  } catch {
+    return saved;
+  }
+};
+
+export const createVerifier = async (passcode: string): Promise<PasscodeVerifier> => {
+  const salt = randomBytes(16);
+  const hash = await derivePasscodeHash(passcode, salt, PBKDF2_ITERATIONS);
+  return {
+    version: CREDENTIAL_VERSION,
+    algorithm: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    hash: bytesToBase64(hash),
+  };
+};
+
+export const matchesVerifier = async (passcode: string, verifier: PasscodeVerifier): Promise<boolean> => {
+  const hash = await derivePasscodeHash(passcode, base64ToBytes(verifier.salt), verifier.iterations);
+  return constantTimeEqual(hash, base64ToBytes(verifier.hash));
+};
+
+export const hasPasscode = (): boolean => readCredential() !== null;
+
+export const setPasscode = async (passcode: string, profileId?: string): Promise<void> => {
+  localStorage.setItem(pinStorageKey(profileId), JSON.stringify(await createVerifier(passcode)));
+};
+
+/**
+ * Checks a passcode against the stored credential. A legacy plaintext PIN is
+ * compared in constant time and, on a match, replaced with a hashed verifier.
+ */
+export const verifyPasscode = async (passcode: string): Promise<boolean> => {
+  const credential = readCredential();
+  if (credential === null) return false;
+
+  if (typeof credential === 'string') {
+    const matches = constantTimeEqual(encoder.encode(passcode), encoder.encode(credential));
+    if (matches) {
+      await setPasscode(passcode);
+    }
+    return matches;
+  }
+
+  return matchesVerifier(passcode, credential);
+};
+
+export const loadPasscodePolicy = (): PasscodePolicy => {
+  const saved = localStorage.getItem(policyStorageKey());
+  if (!saved) return DEFAULT_PASSCODE_POLICY;
+  try {
+    return { ...DEFAULT_PASSCODE_POLICY, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse passcode policy", e);
+    return DEFAULT_PASSCODE_POLICY;
+  }
+};
+
+export const savePasscodePolicy = (policy: PasscodePolicy, profileId?: string) => {
+  localStorage.setItem(policyStorageKey(profileId), JSON.stringify(policy));
+};
+
+/**
+ * Builds the policy for a newly chosen passcode. PINs record their exact length
+ * so the LOCKED view can size the dots and auto-submit.
+ */
+export const policyForPasscode = (passcode: string, mode: PasscodeMode): PasscodePolicy => ({
+  mode,
+  length: mode === 'pin' ? passcode.length : MIN_PASSPHRASE_LENGTH,
+});
+
+/**
+ * Returns a user-facing reason the passcode is not acceptable, or null if it is.
+ */
+export const validatePasscode = (passcode: string, mode: PasscodeMode): string | null => {
+  if (mode === 'pin') {
+    if (!/^\d*$/.test(passcode)) return 'PIN may only contain digits.';
+    if (passcode.length < MIN_PIN_LENGTH || passcode.length > MAX_PIN_LENGTH) {
+      return `PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits.`;
+    }
+    return null;
+  }
+
+  if (passcode.length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  }
+  if (passcode.length > MAX_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at most ${MAX_PASSPHRASE_LENGTH} characters.`;
+  }
+  return null;
+};
+
+/**
+ * Replaces the passcode and re-wraps the vault key with it. Documents, logs and
+ * settings are left untouched. While the passkey is required as well, the
+ * authenticator is asked to re-wrap its two-factor copy instead.
+ */
+export const replacePasscode = async (
+  dataKey: CryptoKey,
+  passcode: string,
+  mode: PasscodeMode
+): Promise<PasscodePolicy> => {
+  const policy = policyForPasscode(passcode, mode);
+  if (getPasskeyInfo()?.requirePasscode) await setPasskeyRequiresPasscode(dataKey, passcode, true);
+  else await storeVaultKey(dataKey, passcode);
+  await setPasscode(passcode);
+  savePasscodePolicy(policy);
+  return policy;
+};
@@ -0,0 +1,187 @@
+// Web Crypto helpers shared by the vault, credential and log stores.
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const PBKDF2_ITERATIONS = 310000;
+
+export interface WrappedKey {
+  salt: string; // Base64
+  iv: string; // Base64
+  key: string; // Base64, AES-GCM wrapped raw key
+  iterations: number;
+}
+
+export interface EncryptedPayload {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export const randomBytes = (length: number): Uint8Array<ArrayBuffer> =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+export const bytesToBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const sha256Hex = async (data: BufferSource): Promise<string> =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', data)), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Stretches a passcode into raw bytes with PBKDF2-SHA256, for storing as a verifier
+ * or as one input to a key that needs a second factor.
+ */
+export const derivePasscodeHash = async (
+  passcode: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  return new Uint8Array(bits);
+};
+
+/**
+ * Compares two byte arrays without short-circuiting on the first mismatch,
+ * so timing does not reveal how many leading bytes matched.
+ */
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  const length = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+/**
+ * Derives an AES-GCM key from a passcode with PBKDF2-SHA256.
+ * The resulting key is only used to wrap/unwrap data keys, never to encrypt content directly.
+ */
+export const deriveWrappingKey = async (
+  passcode: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passcode), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+/**
+ * Generates a random AES-GCM data key. It is extractable so it can be wrapped by a passcode-derived key.
+ */
+export const generateDataKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+export const wrapDataKey = async (dataKey: CryptoKey, passcode: string): Promise<WrappedKey> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveWrappingKey(passcode, salt);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return {
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    key: bytesToBase64(wrapped),
+    iterations: PBKDF2_ITERATIONS,
+  };
+};
+
+/**
+ * Unwraps a data key. Rejects if the passcode is wrong (AES-GCM authentication fails).
+ */
+export const unwrapDataKey = async (wrapped: WrappedKey, passcode: string): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(passcode, base64ToBytes(wrapped.salt), wrapped.iterations);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    base64ToBytes(wrapped.key),
+    wrappingKey,
+    { name: 'AES-GCM', iv: base64ToBytes(wrapped.iv) },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (key: CryptoKey, data: BufferSource): Promise<EncryptedPayload> => {
+  const iv = randomBytes(12);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return { iv, data: encrypted };
+};
+
+export const decryptBytes = (key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.data);
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<EncryptedPayload> =>
+  encryptBytes(key, encoder.encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> =>
+  JSON.parse(decoder.decode(await decryptBytes(key, payload))) as T;
+
+// --- Sealed boxes ---
+// Anyone holding the public key can seal; only the private key can open. Each box
+// uses a fresh ephemeral ECDH key, with HKDF turning the shared secret into an AES-GCM key.
+
+const SEALED_BOX_INFO = encoder.encode('vaultguard-sealed-box-v1');
+
+export interface SealedBox {
+  epk: JsonWebKey; // Ephemeral public key
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export const generateSealingKeyPair = (): Promise<CryptoKeyPair> =>
+  crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+
+export const importSealingPublicKey = (jwk: JsonWebKey): Promise<CryptoKey> =>
+  crypto.subtle.importKey('jwk', jwk, { name: 'ECDH', namedCurve: 'P-256' }, true, []);
+
+export const importSealingPrivateKey = (pkcs8: BufferSource): Promise<CryptoKey> =>
+  crypto.subtle.importKey('pkcs8', pkcs8, { name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+
+const deriveBoxKey = async (privateKey: CryptoKey, publicKey: CryptoKey, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const material = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: SEALED_BOX_INFO },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealBytes = async (publicKey: CryptoKey, data: BufferSource): Promise<SealedBox> => {
+  const ephemeral = await generateSealingKeyPair();
+  const iv = randomBytes(12);
+  const key = await deriveBoxKey(ephemeral.privateKey, publicKey, iv);
+  return {
+    epk: await crypto.subtle.exportKey('jwk', ephemeral.publicKey),
+    iv,
+    data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data),
+  };
+};
+
+export const openSealedBytes = async (privateKey: CryptoKey, box: SealedBox): Promise<ArrayBuffer> => {
+  const key = await deriveBoxKey(privateKey, await importSealingPublicKey(box.epk), box.iv);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: box.iv }, key, box.data);
+};
+
+export const sealJson = (publicKey: CryptoKey, value: unknown): Promise<SealedBox> =>
+  sealBytes(publicKey, encoder.encode(JSON.stringify(value)));
+
+export const openSealedJson = async <T>(privateKey: CryptoKey, box: SealedBox): Promise<T> =>
+  JSON.parse(decoder.decode(await openSealedBytes(privateKey, box))) as T;
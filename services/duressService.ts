@@ -0,0 +1,159 @@
+import { PasscodeMode, PasscodePolicy, VaultItem } from '../types';
+import { PasscodeVerifier, createVerifier, matchesVerifier, validatePasscode, verifyPasscode } from './credentialService';
+import { VaultStore } from './vaultService';
+import { profileStorageKey } from './profileService';
+
+const duressStorageKey = () => profileStorageKey('duress');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The duress passcode is stored like the real one (a hashed verifier). It opens
+ * nothing: it only tells the LOCKED view to show the decoy vault and raise an alert.
+ * The mode and length are recorded because a PIN is auto-submitted at the length
+ * of the real PIN, so a duress PIN of another length could never be entered.
+ */
+interface DuressRecord {
+  verifier: PasscodeVerifier;
+  mode: PasscodeMode;
+  length: number;
+  createdAt: number;
+}
+
+const readRecord = (): DuressRecord | null => {
+  const saved = localStorage.getItem(duressStorageKey());
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse duress passcode", e);
+    return null;
+  }
+};
+
+export const hasDuressPasscode = (): boolean => readRecord() !== null;
+
+/**
+ * Whether the stored duress passcode can still be entered under the given
+ * passcode policy. Changing the real passcode's mode or PIN length breaks it.
+ */
+export const duressFitsPolicy = (policy: PasscodePolicy): boolean => {
+  const record = readRecord();
+  if (!record || record.mode !== policy.mode) return false;
+  return policy.mode !== 'pin' || record.length === policy.length;
+};
+
+/**
+ * Returns a user-facing reason the duress passcode is not acceptable, or null if it is.
+ * Inside the decoy, the duress passcode is the one that "unlocked", so it takes
+ * the place of the real passcode in the comparison.
+ */
+export const validateDuressPasscode = async (passcode: string, policy: PasscodePolicy, decoy: boolean = false): Promise<string | null> => {
+  const error = validatePasscode(passcode, policy.mode);
+  if (error) return error;
+  if (policy.mode === 'pin' && passcode.length !== policy.length) {
+    return `Duress PIN must have ${policy.length} digits, like your PIN.`;
+  }
+  const matchesCurrent = decoy ? await verifyDuressPasscode(passcode) : await verifyPasscode(passcode);
+  if (matchesCurrent) return 'Duress passcode must differ from your passcode.';
+  return null;
+};
+
+export const setDuressPasscode = async (passcode: string, policy: PasscodePolicy): Promise<void> => {
+  const record: DuressRecord = {
+    verifier: await createVerifier(passcode),
+    mode: policy.mode,
+    length: passcode.length,
+    createdAt: Date.now(),
+  };
+  localStorage.setItem(duressStorageKey(), JSON.stringify(record));
+};
+
+export const removeDuressPasscode = (): void => {
+  localStorage.removeItem(duressStorageKey());
+};
+
+/**
+ * Checks a passcode that did not match the real one against the duress verifier.
+ */
+export const verifyDuressPasscode = async (passcode: string): Promise<boolean> => {
+  const record = readRecord();
+  return record ? matchesVerifier(passcode, record.verifier) : false;
+};
+
+// Unremarkable files, so the decoy looks like a vault someone actually uses
+const DECOY_DOCUMENTS: { name: string; ageDays: number; text: string }[] = [
+  {
+    name: 'Groceries.txt',
+    ageDays: 3,
+    text: 'Milk\nEggs\nBread\nCoffee\nApples\nRice\nOlive oil\nDish soap\n',
+  },
+  {
+    name: 'Wifi and router.txt',
+    ageDays: 41,
+    text: 'Router admin page: 192.168.1.1\nNetwork: HomeNet-5G\nISP support: call the number on the bill\nReboot the router first if the connection drops.\n',
+  },
+  {
+    name: 'Gift ideas.txt',
+    ageDays: 64,
+    text: 'Mum: scarf, cookbook\nDad: garden gloves\nSam: board game, headphones\n',
+  },
+  {
+    name: 'Car service notes.txt',
+    ageDays: 132,
+    text: 'Oil change due at 45,000 km.\nTyres rotated in spring.\nNext inspection in October.\n',
+  },
+];
+
+/**
+ * An in-memory document vault filled with harmless files. Uploads, renames and
+ * deletes behave normally but are forgotten when the decoy is locked.
+ */
+export const createDecoyVaultStore = (now: number = Date.now()): VaultStore => {
+  const contents = new Map<string, Blob>();
+  let items: VaultItem[] = DECOY_DOCUMENTS.map(doc => {
+    const blob = new Blob([doc.text], { type: 'text/plain' });
+    const timestamp = now - doc.ageDays * DAY_MS;
+    const item: VaultItem = {
+      id: crypto.randomUUID(),
+      name: doc.name,
+      mimeType: blob.type,
+      size: blob.size,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    contents.set(item.id, blob);
+    return item;
+  });
+
+  return {
+    list: async () => [...items].sort((a, b) => b.updatedAt - a.updatedAt),
+    add: async (file) => {
+      const item: VaultItem = {
+        id: crypto.randomUUID(),
+        name: file.name,
+        mimeType: file.type || 'application/octet-stream',
+        size: file.size,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      contents.set(item.id, file);
+      items = [item, ...items];
+      return item;
+    },
+    read: async (item) => {
+      const blob = contents.get(item.id);
+      if (!blob) throw new Error(`Vault item ${item.id} not found`);
+      return blob;
+    },
+    rename: async (item, name) => {
+      const updated = { ...item, name, updatedAt: Date.now() };
+      items = items.map(i => (i.id === item.id ? updated : i));
+      return updated;
+    },
+    remove: async (id) => {
+      contents.delete(id);
+      items = items.filter(i => i.id !== id);
+    },
+  };
+};
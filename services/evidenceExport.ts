@@ -0,0 +1,248 @@
+import { AuditEvent, AuditVerification, IncidentSummary, IntruderLog, IntruderMedia, Suspect } from '../types';
+import { sha256Hex } from './cryptoService';
+import { getLogMedia, getLogMediaDataUrl, listLogMedia } from './logRepository';
+import { listAuditEvents, verifyAuditLog } from './auditLog';
+import { fileExtension } from './mediaUtils';
+import { pauseAutoLockUntilReturn } from './autoLockService';
+import { groupIncidents, listIncidentReports } from './incidentService';
+import { suspectLabel } from './suspectService';
+import { SIGNATURE_DESCRIPTION, signBytes, unlockSigningKey } from './signingKeyService';
+import { THREAT_LEVEL_LABELS, isStructuredAnalysis } from './threatAnalysis';
+import { ZipEntry, createZip } from './zipArchive';
+
+const EVIDENCE_FORMAT = 'vaultguard-evidence';
+const EVIDENCE_VERSION = 1;
+
+const encoder = new TextEncoder();
+
+interface ManifestFile {
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+/**
+ * Lists every other file in the archive with its SHA-256, so a recipient can
+ * check nothing was altered after export. SHA256SUMS carries the same hashes
+ * (plus the manifest's own) in the format `sha256sum -c` reads. manifest.sig
+ * holds the Base64 signature of manifest.json by the public key named here.
+ */
+interface EvidenceManifest {
+  format: typeof EVIDENCE_FORMAT;
+  version: typeof EVIDENCE_VERSION;
+  exportedAt: string;
+  logs: { id: string; timestamp: string; attemptNumber: number; folder: string }[];
+  audit: { entries: number; intact: boolean; headSeq: number | null; headHash: string | null };
+  files: ManifestFile[];
+  signing: { algorithm: typeof SIGNATURE_DESCRIPTION; publicKey: JsonWebKey; fingerprint: string };
+}
+
+export interface EvidenceArchive {
+  archive: Blob;
+  fingerprint: string; // Of the device key that signed the manifest
+}
+
+interface ReportData {
+  logs: IntruderLog[];
+  suspects: Suspect[];
+  images: Record<string, string>; // Log id -> data URL of the face crop or primary photo
+  reports: Record<string, IncidentSummary>;
+  verification: AuditVerification;
+}
+
+const isoStamp = (timestamp: number) => new Date(timestamp).toISOString().replace(/[:.]/g, '-');
+
+const mediaFileName = (log: IntruderLog, media: IntruderMedia, index: number) => {
+  const base = media.id === log.faceCropId ? 'face' : media.id === log.imageId ? 'primary' : `${media.kind}-${index + 1}`;
+  return `${base}.${fileExtension(media.mimeType)}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const describeLogAnalysis = (log: IntruderLog): string => {
+  if (!log.aiAnalysis) return 'Not analyzed';
+  if (!isStructuredAnalysis(log.aiAnalysis)) return log.aiAnalysis;
+  const a = log.aiAnalysis;
+  return [
+    `Threat ${a.threatLevel}/5 (${THREAT_LEVEL_LABELS[a.threatLevel]}), ${Math.round(a.confidence * 100)}% confidence`,
+    `Age ${a.ageRange.min}–${a.ageRange.max}, ${a.expression}`,
+    a.environment,
+    a.distinctiveFeatures.length > 0 ? `Features: ${a.distinctiveFeatures.join(', ')}` : '',
+    a.summary ?? '',
+  ].filter(Boolean).join('. ');
+};
+
+const loadReportData = async (logs: IntruderLog[], suspects: Suspect[], privateKey: CryptoKey): Promise<ReportData> => {
+  const images: Record<string, string> = {};
+  for (const log of logs) {
+    const image = await getLogMediaDataUrl(log.faceCropId ?? log.imageId, privateKey);
+    if (image) images[log.id] = image;
+  }
+  return {
+    logs,
+    suspects,
+    images,
+    reports: await listIncidentReports(privateKey),
+    verification: await verifyAuditLog(),
+  };
+};
+
+const renderReport = ({ logs, suspects, images, reports, verification }: ReportData): string => {
+  const incidents = groupIncidents(logs);
+  const suspectOf = (log: IntruderLog) => suspects.find(s => s.id === log.suspectId);
+  const auditStatus = verification.issues.length === 0
+    ? `Audit trail intact (${verification.entries} entries)`
+    : `Audit trail shows tampering: ${verification.issues.map(i => i.message).join('; ')}`;
+
+  const sections = incidents.map(incident => {
+    const report = reports[incident.id];
+    const rows = incident.logs.map(log => `
+      <tr>
+        <td>${images[log.id] ? `<img src="${images[log.id]}" alt="Attempt ${log.attemptNumber}">` : ''}</td>
+        <td>
+          <strong>${log.duress ? 'Unlocked under duress' : `Attempt #${log.attemptNumber}`}</strong> · ${escapeHtml(new Date(log.timestamp).toLocaleString())}<br>
+          ${suspectOf(log) ? `${escapeHtml(suspectLabel(suspectOf(log)!))}<br>` : ''}
+          ${log.face ? `Face detected (${Math.round(log.face.confidence * 100)}%)<br>` : ''}
+          <span class="muted">${escapeHtml(describeLogAnalysis(log))}</span>
+        </td>
+      </tr>`).join('');
+
+    return `
+    <section>
+      <h2>${escapeHtml(new Date(incident.startedAt).toLocaleString())} · ${incident.logs.length} attempt${incident.logs.length === 1 ? '' : 's'}</h2>
+      ${report ? `<p class="summary">Threat ${report.threatLevel}/5 (${THREAT_LEVEL_LABELS[report.threatLevel]}), ${report.distinctPeople} ${report.distinctPeople === 1 ? 'person' : 'people'}. ${escapeHtml(report.narrative)}</p>` : ''}
+      <table>${rows}</table>
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>VaultGuard Incident Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+  section { page-break-inside: avoid; margin-top: 1.5rem; }
+  table { width: 100%; border-collapse: collapse; }
+  td { vertical-align: top; padding: 0.5rem; border-bottom: 1px solid #eee; font-size: 0.9rem; }
+  td:first-child { width: 110px; }
+  img { width: 100px; height: 100px; object-fit: cover; border-radius: 4px; }
+  .muted { color: #555; }
+  .summary { background: #f5f3ff; padding: 0.5rem 0.75rem; border-left: 3px solid #7c3aed; }
+</style>
+</head>
+<body>
+  <h1>VaultGuard Incident Report</h1>
+  <p class="muted">Generated ${escapeHtml(new Date().toLocaleString())} · ${logs.length} failed attempt${logs.length === 1 ? '' : 's'} in ${incidents.length} incident${incidents.length === 1 ? '' : 's'}</p>
+  <p class="muted">${escapeHtml(auditStatus)}</p>
+  ${sections}
+</body>
+</html>`;
+};
+
+/**
+ * Self-contained HTML report of the given logs, grouped into incidents, with the
+ * photos embedded so it can be printed or saved as PDF from the browser.
+ */
+export const buildIncidentReport = async (logs: IntruderLog[], suspects: Suspect[], privateKey: CryptoKey): Promise<string> =>
+  renderReport(await loadReportData(logs, suspects, privateKey));
+
+/**
+ * Opens the report in a new window and brings up the print dialog. Returns false
+ * if the browser blocked the window. Auto-lock waits until the user is back, as
+ * the window hides this page.
+ */
+export const printIncidentReport = (html: string): boolean => {
+  const resumeAutoLock = pauseAutoLockUntilReturn();
+  const win = window.open('', '_blank');
+  if (!win) {
+    resumeAutoLock();
+    return false;
+  }
+  // Printing from inside the page waits for the embedded photos to decode
+  win.document.write(html.replace('</body>', '<script>addEventListener("load", () => print());</script></body>'));
+  win.document.close();
+  return true;
+};
+
+const auditSnapshot = (events: AuditEvent[], verification: AuditVerification) =>
+  ({ verification, events: [...events].sort((a, b) => a.seq - b.seq) });
+
+/**
+ * Packs the given logs into a ZIP: one folder per log with its decrypted photos,
+ * clips and details, the audit trail (for admins), a printable report, and a
+ * checksummed manifest signed with this device's key.
+ */
+export const exportEvidenceArchive = async (
+  logs: IntruderLog[],
+  suspects: Suspect[],
+  privateKey: CryptoKey,
+  includeAudit: boolean = true
+): Promise<EvidenceArchive> => {
+  const oldestFirst = [...logs].sort((a, b) => a.timestamp - b.timestamp);
+  const entries: ZipEntry[] = [];
+  const addFile = (path: string, data: Uint8Array<ArrayBuffer>, modifiedAt?: number) =>
+    entries.push({ path, data, modifiedAt });
+  const addJson = (path: string, value: unknown, modifiedAt?: number) =>
+    addFile(path, encoder.encode(JSON.stringify(value, null, 2)), modifiedAt);
+
+  const manifestLogs: EvidenceManifest['logs'] = [];
+  for (const log of oldestFirst) {
+    const folder = `logs/${isoStamp(log.timestamp)}_${log.id}`;
+    const suspect = suspects.find(s => s.id === log.suspectId);
+    const media = listLogMedia(log);
+    const files: Record<string, string> = {};
+
+    for (const [i, item] of media.entries()) {
+      const blob = await getLogMedia(item.id, privateKey);
+      if (!blob) continue;
+      const name = mediaFileName(log, item, i);
+      files[item.id] = name;
+      addFile(`${folder}/${name}`, new Uint8Array(await blob.arrayBuffer()), item.capturedAt);
+    }
+    addJson(`${folder}/log.json`, { ...log, suspect: suspect ? suspectLabel(suspect) : undefined, files }, log.timestamp);
+    manifestLogs.push({ id: log.id, timestamp: new Date(log.timestamp).toISOString(), attemptNumber: log.attemptNumber, folder });
+  }
+
+  const events = includeAudit ? await listAuditEvents(privateKey) : [];
+  const reportData = await loadReportData(oldestFirst, suspects, privateKey);
+  if (includeAudit) addJson('audit.json', auditSnapshot(events, reportData.verification));
+  addFile('report.html', encoder.encode(renderReport(reportData)));
+
+  const files = await Promise.all(entries.map(async (entry): Promise<ManifestFile> => ({
+    path: entry.path,
+    bytes: entry.data.length,
+    sha256: await sha256Hex(entry.data),
+  })));
+  const head = events[0];
+  const signingKey = await unlockSigningKey(privateKey);
+  const manifest: EvidenceManifest = {
+    format: EVIDENCE_FORMAT,
+    version: EVIDENCE_VERSION,
+    exportedAt: new Date().toISOString(),
+    logs: manifestLogs,
+    audit: {
+      entries: reportData.verification.entries,
+      intact: reportData.verification.issues.length === 0,
+      headSeq: head?.seq ?? null,
+      headHash: head?.hash ?? null,
+    },
+    files,
+    signing: { algorithm: SIGNATURE_DESCRIPTION, publicKey: signingKey.publicKey, fingerprint: signingKey.fingerprint },
+  };
+  const manifestBytes = encoder.encode(JSON.stringify(manifest, null, 2));
+  addFile('manifest.json', manifestBytes);
+  addFile('manifest.sig', encoder.encode(`${await signBytes(signingKey, manifestBytes)}\n`));
+
+  const sums = [...files, { path: 'manifest.json', sha256: await sha256Hex(manifestBytes) }]
+    .map(file => `${file.sha256}  ${file.path}`)
+    .join('\n');
+  addFile('SHA256SUMS', encoder.encode(`${sums}\n`));
+
+  return { archive: createZip(entries), fingerprint: signingKey.fingerprint };
+};
+
+export const evidenceFileName = (now: number = Date.now()) => `vaultguard-evidence-${isoStamp(now)}.zip`;
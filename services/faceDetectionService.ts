@@ -0,0 +1,130 @@
+import { BoundingBox, FaceDetection } from '../types';
+
+// The Shape Detection API reports no score, so native hits get a fixed confidence
+// that still ranks them above anything the heuristic can produce
+const NATIVE_CONFIDENCE = 0.9;
+const HEURISTIC_MAX_CONFIDENCE = 0.6;
+
+const HEURISTIC_SAMPLE_WIDTH = 80;
+const MIN_FACE_AREA_RATIO = 0.02;
+
+interface NativeFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => {
+  detect(image: CanvasImageSource): Promise<NativeFace[]>;
+};
+
+const NativeFaceDetector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+
+let nativeDetector: InstanceType<FaceDetectorConstructor> | null = null;
+
+const detectNative = async (canvas: HTMLCanvasElement): Promise<FaceDetection | null> => {
+  if (!NativeFaceDetector) return null;
+  nativeDetector ??= new NativeFaceDetector({ fastMode: true, maxDetectedFaces: 5 });
+
+  const faces = await nativeDetector.detect(canvas);
+  if (faces.length === 0) return null;
+
+  const largest = faces.reduce((best, face) =>
+    face.boundingBox.width * face.boundingBox.height > best.boundingBox.width * best.boundingBox.height ? face : best
+  );
+  const { x, y, width, height } = largest.boundingBox;
+  return { box: { x, y, width, height }, confidence: NATIVE_CONFIDENCE, method: 'native' };
+};
+
+// Skin tone rule in YCbCr space; holds up reasonably across skin colours and lighting
+const isSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+/**
+ * Fallback for browsers without FaceDetector: finds the largest connected patch
+ * of skin-coloured pixels with roughly face-like proportions. Cheap and crude,
+ * so its confidence is capped well below a native detection.
+ */
+const detectHeuristic = (canvas: HTMLCanvasElement): FaceDetection | null => {
+  const scale = HEURISTIC_SAMPLE_WIDTH / canvas.width;
+  const width = HEURISTIC_SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round(canvas.height * scale));
+  const sample = document.createElement('canvas');
+  sample.width = width;
+  sample.height = height;
+  const context = sample.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  context.drawImage(canvas, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const skin = new Uint8Array(width * height);
+  for (let i = 0; i < skin.length; i++) {
+    skin[i] = isSkin(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]) ? 1 : 0;
+  }
+
+  let best: { area: number; box: BoundingBox } | null = null;
+  const visited = new Uint8Array(skin.length);
+  const stack: number[] = [];
+
+  for (let start = 0; start < skin.length; start++) {
+    if (!skin[start] || visited[start]) continue;
+
+    let area = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      area++;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && skin[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    if (!best || area > best.area) {
+      best = { area, box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } };
+    }
+  }
+
+  if (!best || best.area < width * height * MIN_FACE_AREA_RATIO) return null;
+
+  const aspect = best.box.width / best.box.height;
+  if (aspect < 0.5 || aspect > 1.5) return null;
+
+  const fill = best.area / (best.box.width * best.box.height);
+  return {
+    box: {
+      x: best.box.x / scale,
+      y: best.box.y / scale,
+      width: best.box.width / scale,
+      height: best.box.height / scale,
+    },
+    confidence: Math.min(HEURISTIC_MAX_CONFIDENCE, fill * HEURISTIC_MAX_CONFIDENCE),
+    method: 'heuristic',
+  };
+};
+
+/**
+ * Looks for a face in a captured frame, entirely on-device. Uses the browser's
+ * FaceDetector where available and falls back to a skin-tone heuristic.
+ * Returns the largest face found, in the frame's pixel coordinates.
+ */
+export const detectFace = async (canvas: HTMLCanvasElement): Promise<FaceDetection | null> => {
+  try {
+    const native = await detectNative(canvas);
+    if (native || NativeFaceDetector) return native;
+  } catch (err) {
+    console.error("Native face detection failed, using fallback", err);
+  }
+  return detectHeuristic(canvas);
+};
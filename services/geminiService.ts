@@ -1,38 +1,113 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Schema, Type } from "@google/genai";
+import { parseIncidentSummary, parseThreatAnalyses, parseThreatAnalysis } from "./threatAnalysis";
+import type { AnalysisProvider } from "./analysisService";
+import { INCIDENT_PROMPT, batchPrompt } from "./prompts";
+import { splitDataUrl } from "./mediaUtils";
 
-// Initialize the client with the API key from the environment
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use, so a missing key only matters once Gemini is actually selected
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new Error("Gemini API key is not configured.");
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const THREAT_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ageRange: {
+      type: Type.OBJECT,
+      description: "Estimated age range in years.",
+      properties: {
+        min: { type: Type.INTEGER },
+        max: { type: Type.INTEGER },
+      },
+      required: ["min", "max"],
+    },
+    expression: { type: Type.STRING, description: "Facial expression, e.g. confused, focused, malicious." },
+    environment: { type: Type.STRING, description: "Brief description of the surroundings." },
+    distinctiveFeatures: {
+      type: Type.ARRAY,
+      description: "Features useful for identifying the person later.",
+      items: { type: Type.STRING },
+    },
+    threatLevel: { type: Type.INTEGER, description: "1 (harmless) to 5 (clearly malicious)." },
+    confidence: { type: Type.NUMBER, description: "Confidence in this assessment, 0 to 1." },
+    summary: { type: Type.STRING, description: "One sentence for the security log." },
+  },
+  required: ["ageRange", "expression", "environment", "distinctiveFeatures", "threatLevel", "confidence"],
+  propertyOrdering: ["ageRange", "expression", "environment", "distinctiveFeatures", "threatLevel", "confidence", "summary"],
+};
+
+const THREAT_ANALYSIS_BATCH_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  description: "One analysis per photo, in the order the photos were given.",
+  items: THREAT_ANALYSIS_SCHEMA,
+};
+
+const INCIDENT_SUMMARY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    narrative: { type: Type.STRING, description: "What happened across the attempts, in a few sentences." },
+    threatLevel: { type: Type.INTEGER, description: "1 (harmless) to 5 (clearly malicious), for the incident as a whole." },
+    distinctPeople: { type: Type.INTEGER, description: "How many different people appear across the photos." },
+  },
+  required: ["narrative", "threatLevel", "distinctPeople"],
+  propertyOrdering: ["narrative", "threatLevel", "distinctPeople"],
+};
+
+// Captures and face crops may be JPEG, PNG or WebP; the data URL says which
+const toImagePart = (imageDataUrl: string) => {
+  const { mimeType, base64 } = splitDataUrl(imageDataUrl);
+  return { inlineData: { mimeType, data: base64 } };
+};
+
+const generateJson = async (model: string, parts: object[], schema: Schema): Promise<unknown> => {
+  const response: GenerateContentResponse = await getClient().models.generateContent({
+    model,
+    contents: { parts },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+    }
+  });
+  if (!response.text) throw new Error("Analysis failed: No text returned.");
+  return JSON.parse(response.text);
+};
 
 /**
- * Analyzes an intruder's photo to generate a security report.
- * @param base64Image The base64 string of the captured image (without data URI prefix if possible, but we'll handle clean up)
- * @returns A string containing the analysis.
+ * Analyzes intruder photos with Gemini, using structured output so the response
+ * always follows the requested schema.
  */
-export const analyzeIntruderImage = async (base64Image: string): Promise<string> => {
-  try {
-    // Remove data URL prefix if present (e.g., "data:image/jpeg;base64,")
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64,
-            },
-          },
-          {
-            text: "You are a security system AI. Analyze this image of a person attempting unauthorized access. Describe their approximate age, facial expression (e.g., confused, focused, malicious), current environment, and any distinctive features for a security log. Keep it concise (under 50 words)."
-          }
-        ]
-      }
-    });
-
-    return response.text || "Analysis failed: No text returned.";
-  } catch (error) {
-    console.error("Gemini analysis failed:", error);
-    return "Security analysis currently unavailable.";
-  }
-};
\ No newline at end of file
+export const createGeminiProvider = (model: string, prompt: string): AnalysisProvider => ({
+  type: 'gemini',
+  label: 'Gemini',
+  model,
+  analyze: async (imageDataUrl) => {
+    const analysis = parseThreatAnalysis(
+      await generateJson(model, [toImagePart(imageDataUrl), { text: prompt }], THREAT_ANALYSIS_SCHEMA)
+    );
+    if (!analysis) throw new Error("Analysis failed: Response did not match the schema.");
+    return analysis;
+  },
+  analyzeBatch: async (imageDataUrls) => {
+    const analyses = parseThreatAnalyses(
+      await generateJson(
+        model,
+        [...imageDataUrls.map(toImagePart), { text: `${prompt}\n\n${batchPrompt(imageDataUrls.length)}` }],
+        THREAT_ANALYSIS_BATCH_SCHEMA
+      ),
+      imageDataUrls.length
+    );
+    if (!analyses) throw new Error("Analysis failed: Response did not match the schema.");
+    return analyses;
+  },
+  summarizeIncident: async (imageDataUrls, context) => {
+    const summary = parseIncidentSummary(
+      await generateJson(model, [...imageDataUrls.map(toImagePart), { text: `${INCIDENT_PROMPT}\n\n${context}` }], INCIDENT_SUMMARY_SCHEMA)
+    );
+    if (!summary) throw new Error("Incident summary failed: Response did not match the schema.");
+    return summary;
+  },
+});
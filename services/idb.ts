@@ -0,0 +1,150 @@
+// Minimal promise wrapper around IndexedDB. All object stores are declared here so
+// schema upgrades happen in one place.
+
+const DB_NAME = 'vault_guard';
+const DB_VERSION = 7;
+
+export const STORES = {
+  VAULT_ITEMS: 'vault_items',
+  ALERT_OUTBOX: 'alert_outbox',
+  INTRUDER_LOGS: 'intruder_logs',
+  LOG_MEDIA: 'log_media',
+  SUSPECTS: 'suspects',
+  ANALYSIS_QUEUE: 'analysis_queue',
+  INCIDENT_REPORTS: 'incident_reports',
+  AUDIT_LOG: 'audit_log',
+} as const;
+
+export const LOG_MEDIA_BY_LOG = 'logId';
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.VAULT_ITEMS)) {
+        db.createObjectStore(STORES.VAULT_ITEMS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.ALERT_OUTBOX)) {
+        db.createObjectStore(STORES.ALERT_OUTBOX, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.INTRUDER_LOGS)) {
+        db.createObjectStore(STORES.INTRUDER_LOGS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.LOG_MEDIA)) {
+        const media = db.createObjectStore(STORES.LOG_MEDIA, { keyPath: 'id' });
+        media.createIndex(LOG_MEDIA_BY_LOG, 'logId');
+      }
+      if (!db.objectStoreNames.contains(STORES.SUSPECTS)) {
+        db.createObjectStore(STORES.SUSPECTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.ANALYSIS_QUEUE)) {
+        db.createObjectStore(STORES.ANALYSIS_QUEUE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.INCIDENT_REPORTS)) {
+        db.createObjectStore(STORES.INCIDENT_REPORTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.AUDIT_LOG)) {
+        db.createObjectStore(STORES.AUDIT_LOG, { keyPath: 'seq' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const runInStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const [result] = await Promise.all([
+    requestToPromise(run(tx.objectStore(storeName))),
+    transactionDone(tx),
+  ]);
+  return result;
+};
+
+/**
+ * Runs several requests across one or more stores in a single transaction and
+ * resolves with run()'s result once the transaction commits.
+ */
+export const runTransaction = async <T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const result = run(tx);
+  await transactionDone(tx);
+  return result;
+};
+
+/**
+ * Read-modify-write of one record inside a single transaction, so concurrent
+ * updates to the same record cannot overwrite each other.
+ */
+export const idbUpdate = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (value: T) => T
+): Promise<T | undefined> => {
+  let updated: T | undefined;
+  await runTransaction([storeName], 'readwrite', tx => {
+    const store = tx.objectStore(storeName);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      if (request.result === undefined) return;
+      updated = update(request.result as T);
+      store.put(updated);
+    };
+  });
+  return updated;
+};
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  runInStore(storeName, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(storeName: StoreName): Promise<T[]> =>
+  runInStore(storeName, 'readonly', store => store.getAll());
+
+export const idbPut = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  await runInStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const idbDelete = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  await runInStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const idbClear = async (storeName: StoreName): Promise<void> => {
+  await runInStore(storeName, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,94 @@
+import { AnalysisSettings, Incident, IncidentSummary, IntruderLog } from '../types';
+import { SealedBox, openSealedJson, sealJson } from './cryptoService';
+import { STORES, idbGetAll, idbPut } from './idb';
+import { getLogPublicKey } from './logKeyService';
+import { getLogMediaDataUrl } from './logRepository';
+import { summarizeIncidentImages } from './analysisService';
+import { isStructuredAnalysis } from './threatAnalysis';
+
+// A pause this long between failures starts a new incident
+const INCIDENT_GAP_MS = 15 * 60 * 1000;
+// Keeps multi-image requests within a sensible size for any provider
+const MAX_INCIDENT_IMAGES = 8;
+
+interface StoredIncidentReport {
+  id: string; // Incident id
+  sealed: SealedBox;
+}
+
+/**
+ * Groups logs into incidents. A new incident starts when the attempt counter goes
+ * back down (the lockout counter resets on a successful unlock, so that marks a
+ * new session) or after a long pause. Returns the newest incident first.
+ */
+export const groupIncidents = (logs: IntruderLog[]): Incident[] => {
+  const oldestFirst = [...logs].sort((a, b) => a.timestamp - b.timestamp);
+  const incidents: Incident[] = [];
+
+  for (const log of oldestFirst) {
+    const current = incidents[incidents.length - 1];
+    const previous = current?.logs[current.logs.length - 1];
+    const continues = previous
+      && log.attemptNumber > previous.attemptNumber
+      && log.timestamp - previous.timestamp <= INCIDENT_GAP_MS;
+
+    if (current && continues) {
+      current.logs.push(log);
+      current.endedAt = log.timestamp;
+    } else {
+      incidents.push({ id: log.id, logs: [log], startedAt: log.timestamp, endedAt: log.timestamp });
+    }
+  }
+  return incidents.reverse();
+};
+
+// Spreads the picks over the whole incident rather than taking the first few
+const pickEvenly = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.round((i * (items.length - 1)) / (count - 1))]);
+};
+
+const describeAttempts = (logs: IntruderLog[]): string =>
+  logs
+    .map((log, i) => {
+      const analysis = log.aiAnalysis
+        ? ` Earlier analysis: ${isStructuredAnalysis(log.aiAnalysis) ? log.aiAnalysis.summary ?? log.aiAnalysis.expression : log.aiAnalysis}`
+        : '';
+      return `Photo ${i + 1}: attempt #${log.attemptNumber} at ${new Date(log.timestamp).toLocaleString()}.${analysis}`;
+    })
+    .join('\n');
+
+/**
+ * Sends the incident's photos (face crops where available) to the analysis
+ * provider in a single request and stores the resulting narrative, sealed.
+ */
+export const summarizeIncident = async (
+  settings: AnalysisSettings,
+  incident: Incident,
+  privateKey: CryptoKey
+): Promise<IncidentSummary> => {
+  const logs = pickEvenly(incident.logs, MAX_INCIDENT_IMAGES);
+  const images = await Promise.all(logs.map(log => getLogMediaDataUrl(log.faceCropId ?? log.imageId, privateKey)));
+  const available = logs.filter((_, i) => images[i]);
+  if (available.length === 0) throw new Error('No photos available for this incident');
+
+  const summary = await summarizeIncidentImages(
+    settings,
+    images.filter((image): image is string => image !== null),
+    describeAttempts(available)
+  );
+
+  const publicKey = await getLogPublicKey();
+  if (publicKey) {
+    await idbPut<StoredIncidentReport>(STORES.INCIDENT_REPORTS, { id: incident.id, sealed: await sealJson(publicKey, summary) });
+  }
+  return summary;
+};
+
+export const listIncidentReports = async (privateKey: CryptoKey): Promise<Record<string, IncidentSummary>> => {
+  const stored = await idbGetAll<StoredIncidentReport>(STORES.INCIDENT_REPORTS);
+  const entries = await Promise.all(
+    stored.map(async (report) => [report.id, await openSealedJson<IncidentSummary>(privateKey, report.sealed)] as const)
+  );
+  return Object.fromEntries(entries);
+};
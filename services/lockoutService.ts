@@ -0,0 +1,71 @@
+import { AppSettings, LockoutState } from '../types';
+import { profileStorageKey } from './profileService';
+
+// Persisted so that refreshing the page does not reset the attempt counter or cooldown.
+// Each profile has its own counter, so attacking one does not lock the others out.
+const lockoutStorageKey = () => profileStorageKey('lockout');
+
+const INITIAL_STATE: LockoutState = {
+  failedAttempts: 0,
+  lockedUntil: null,
+  lastFailureAt: null,
+};
+
+export const loadLockoutState = (): LockoutState => {
+  const saved = localStorage.getItem(lockoutStorageKey());
+  if (!saved) return INITIAL_STATE;
+  try {
+    return { ...INITIAL_STATE, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to parse lockout state", e);
+    return INITIAL_STATE;
+  }
+};
+
+const saveLockoutState = (state: LockoutState) => {
+  localStorage.setItem(lockoutStorageKey(), JSON.stringify(state));
+};
+
+/**
+ * Cooldown earned by the given number of consecutive failures. Nothing until
+ * lockoutThreshold is reached, then each further failure steps through
+ * lockoutDurations, repeating the longest.
+ */
+export const cooldownForAttempts = (failedAttempts: number, settings: AppSettings): number => {
+  const durations = settings.lockoutDurations;
+  if (durations.length === 0 || failedAttempts < settings.lockoutThreshold) return 0;
+  const step = Math.min(failedAttempts - settings.lockoutThreshold, durations.length - 1);
+  return durations[step] * 1000;
+};
+
+export const recordFailedAttempt = (settings: AppSettings, now: number = Date.now()): LockoutState => {
+  const failedAttempts = loadLockoutState().failedAttempts + 1;
+  const cooldown = cooldownForAttempts(failedAttempts, settings);
+  const state: LockoutState = {
+    failedAttempts,
+    lockedUntil: cooldown > 0 ? now + cooldown : null,
+    lastFailureAt: now,
+  };
+  saveLockoutState(state);
+  return state;
+};
+
+export const resetLockout = (): LockoutState => {
+  saveLockoutState(INITIAL_STATE);
+  return INITIAL_STATE;
+};
+
+export const shouldWipe = (state: LockoutState, settings: AppSettings): boolean =>
+  settings.wipeAfterFailures > 0 && state.failedAttempts >= settings.wipeAfterFailures;
+
+export const remainingLockout = (state: LockoutState, now: number = Date.now()): number =>
+  state.lockedUntil ? Math.max(0, state.lockedUntil - now) : 0;
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
@@ -0,0 +1,106 @@
+import {
+  EncryptedPayload,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  encryptBytes,
+  generateSealingKeyPair,
+  importSealingPrivateKey,
+  importSealingPublicKey,
+} from './cryptoService';
+import { listProfiles, profileStorageKey } from './profileService';
+
+const logKeyStorageKey = (profileId?: string) => profileStorageKey('log_key', profileId);
+
+/**
+ * The public half is stored in the clear so captures can be sealed while LOCKED.
+ * The private half is encrypted with the vault data key and only usable after unlock.
+ * There is one key pair per device: every profile stores the same public key and
+ * its own copy of the private key, wrapped with that profile's vault key.
+ *
+ * Members hold the whole private key too, so an unlocked member could open every
+ * profile's logs straight from storage. That admins alone see all logs is a rule
+ * of the app's views, not something the encryption enforces.
+ */
+interface StoredLogKey {
+  publicKey: JsonWebKey;
+  privateKey: { iv: string; data: string }; // Base64, PKCS#8 encrypted with the vault key
+}
+
+let cachedPublicKey: { jwk: string; key: CryptoKey } | null = null;
+
+const readStoredKey = (profileId?: string): StoredLogKey | null => {
+  const saved = localStorage.getItem(logKeyStorageKey(profileId));
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse log key", e);
+    return null;
+  }
+};
+
+// Every copy carries the same public key, so any profile's will do for sealing
+const readAnyStoredKey = (): StoredLogKey | null =>
+  readStoredKey() ?? listProfiles().reduce<StoredLogKey | null>((found, p) => found ?? readStoredKey(p.id), null);
+
+export const hasLogKey = (): boolean => readStoredKey() !== null;
+
+/**
+ * Public key used to seal new log entries, or null if no key pair exists yet
+ * (an install that has not been unlocked since log encryption was added).
+ */
+export const getLogPublicKey = async (): Promise<CryptoKey | null> => {
+  const stored = readAnyStoredKey();
+  if (!stored) return null;
+
+  const jwk = JSON.stringify(stored.publicKey);
+  if (cachedPublicKey?.jwk !== jwk) {
+    cachedPublicKey = { jwk, key: await importSealingPublicKey(stored.publicKey) };
+  }
+  return cachedPublicKey.key;
+};
+
+const storeLogKey = async (publicKey: JsonWebKey, privateKey: CryptoKey, dataKey: CryptoKey, profileId?: string) => {
+  const encrypted = await encryptBytes(dataKey, await crypto.subtle.exportKey('pkcs8', privateKey));
+  const stored: StoredLogKey = {
+    publicKey,
+    privateKey: { iv: bytesToBase64(encrypted.iv), data: bytesToBase64(encrypted.data) },
+  };
+  localStorage.setItem(logKeyStorageKey(profileId), JSON.stringify(stored));
+};
+
+const createLogKey = async (dataKey: CryptoKey): Promise<CryptoKey> => {
+  const pair = await generateSealingKeyPair();
+  await storeLogKey(await crypto.subtle.exportKey('jwk', pair.publicKey), pair.privateKey, dataKey);
+  return pair.privateKey;
+};
+
+/**
+ * Gives another profile its copy of the log private key, wrapped with that
+ * profile's vault key. Needs the active profile to be unlocked.
+ */
+export const grantLogKey = async (privateKey: CryptoKey, dataKey: CryptoKey, profileId: string): Promise<void> => {
+  const stored = readStoredKey();
+  if (!stored) throw new Error('No log key to share');
+  await storeLogKey(stored.publicKey, privateKey, dataKey, profileId);
+};
+
+/**
+ * Decrypts the log private key with the vault data key, creating the key pair on
+ * first use. A profile without a copy while another has one throws: a new pair
+ * would seal everything from then on to a key no other profile can open.
+ */
+export const unlockLogKey = async (dataKey: CryptoKey): Promise<CryptoKey> => {
+  const stored = readStoredKey();
+  if (!stored) {
+    if (readAnyStoredKey()) throw new Error('This profile was never given the log key. Ask an admin to add the profile again.');
+    return createLogKey(dataKey);
+  }
+
+  const payload: EncryptedPayload = {
+    iv: base64ToBytes(stored.privateKey.iv),
+    data: base64ToBytes(stored.privateKey.data).buffer,
+  };
+  return importSealingPrivateKey(await decryptBytes(dataKey, payload));
+};
@@ -0,0 +1,301 @@
+import { AlertDelivery, IntruderLog, IntruderMedia, RetentionPolicy, StorageUsage, ThreatAnalysis } from '../types';
+import { SealedBox, openSealedBytes, openSealedJson, sealBytes, sealJson } from './cryptoService';
+import { LOG_MEDIA_BY_LOG, STORES, idbGet, idbGetAll, idbUpdate, runTransaction } from './idb';
+import { getLogPublicKey } from './logKeyService';
+import { blobToDataUrl, dataUrlToBlob } from './mediaUtils';
+import { mergeDelivery } from './alertOutbox';
+import { CapturedMedia } from './captureService';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from './profileService';
+
+// Logs used to live in one localStorage key, image data included
+const LEGACY_LOGS_STORAGE_KEY = 'vault_guard_logs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields only readable after unlock
+type LogDetails = Pick<IntruderLog, 'attemptNumber' | 'aiAnalysis' | 'face' | 'faceHash' | 'suspectId' | 'duress'>;
+
+/**
+ * What is persisted for a log. Only what retention and alert tracking need while
+ * LOCKED stays in the clear; the details are sealed to the log public key.
+ * Records written before log encryption carry plaintext details instead of
+ * `sealed` until the next unlock seals them.
+ */
+interface StoredLog extends Omit<IntruderLog, keyof LogDetails>, Partial<LogDetails> {
+  sealed?: SealedBox;
+  sealedAnalysis?: SealedBox; // Analysis attached while LOCKED; folded into `sealed` on the next details update
+}
+
+// Photos and clips are kept apart from the metadata so listing logs never loads image bytes
+interface StoredLogMedia {
+  id: string;
+  logId: string;
+  mimeType: string;
+  sealed?: SealedBox;
+  blob?: Blob; // Plaintext, only on records from before log encryption
+}
+
+type LegacyIntruderLog = Omit<IntruderLog, 'imageId' | 'bytes'> & { imageData: string };
+
+export type NewIntruderLog = Omit<IntruderLog, 'imageId' | 'bytes' | 'media' | 'faceCropId'>;
+
+const splitDetails = (log: IntruderLog): { envelope: StoredLog; details: LogDetails } => {
+  const { attemptNumber, aiAnalysis, face, faceHash, suspectId, duress, ...envelope } = log;
+  return { envelope, details: { attemptNumber, aiAnalysis, face, faceHash, suspectId, duress } };
+};
+
+const putLog = (log: StoredLog, media: StoredLogMedia[]) =>
+  runTransaction([STORES.INTRUDER_LOGS, STORES.LOG_MEDIA], 'readwrite', tx => {
+    tx.objectStore(STORES.INTRUDER_LOGS).put(log);
+    media.forEach(record => tx.objectStore(STORES.LOG_MEDIA).put(record));
+  });
+
+/**
+ * Stores a new log with everything captured for it. The capture marked primary
+ * (or the first one) becomes `imageId`. Works while LOCKED: only the public key
+ * is needed to seal. Without a key pair yet, the record is kept in plaintext
+ * until the next unlock.
+ */
+export const addLog = async (entry: NewIntruderLog, captures: CapturedMedia[]): Promise<IntruderLog> => {
+  const media: IntruderMedia[] = captures.map(capture => ({
+    id: crypto.randomUUID(),
+    kind: capture.kind,
+    mimeType: capture.blob.type,
+    bytes: capture.blob.size,
+    capturedAt: capture.capturedAt,
+    sharpness: capture.sharpness,
+  }));
+  const primary = media[Math.max(0, captures.findIndex(c => c.primary))];
+  const log: IntruderLog = {
+    ...entry,
+    imageId: primary.id,
+    bytes: media.reduce((sum, m) => sum + m.bytes, 0),
+    media,
+    faceCropId: media[captures.findIndex(c => c.faceCrop)]?.id,
+  };
+  const publicKey = await getLogPublicKey();
+
+  if (!publicKey) {
+    await putLog(log, captures.map((capture, i) => ({ id: media[i].id, logId: log.id, mimeType: media[i].mimeType, blob: capture.blob })));
+    return log;
+  }
+
+  const { envelope, details } = splitDetails(log);
+  const records = await Promise.all(
+    captures.map(async (capture, i): Promise<StoredLogMedia> => ({
+      id: media[i].id,
+      logId: log.id,
+      mimeType: media[i].mimeType,
+      sealed: await sealBytes(publicKey, await capture.blob.arrayBuffer()),
+    }))
+  );
+  await putLog({ ...envelope, sealed: await sealJson(publicKey, details) }, records);
+  return log;
+};
+
+/**
+ * Moves logs out of localStorage into IndexedDB. Runs once; the legacy key is
+ * removed only after every log has been written.
+ */
+export const migrateLegacyLogs = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_LOGS_STORAGE_KEY);
+  if (!saved) return;
+
+  let legacy: LegacyIntruderLog[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse legacy logs", e);
+    return;
+  }
+
+  for (const { imageData, ...entry } of legacy) {
+    await addLog(entry, [{ blob: dataUrlToBlob(imageData), kind: 'image', capturedAt: entry.timestamp, primary: true }]);
+  }
+  localStorage.removeItem(LEGACY_LOGS_STORAGE_KEY);
+};
+
+/**
+ * Seals any log or photo still stored in plaintext. Called after unlock, once
+ * the log key pair is guaranteed to exist.
+ */
+export const sealPlaintextLogs = async (): Promise<void> => {
+  const publicKey = await getLogPublicKey();
+  if (!publicKey) return;
+
+  for (const record of await idbGetAll<StoredLog>(STORES.INTRUDER_LOGS)) {
+    if (record.sealed) continue;
+    const { envelope, details } = splitDetails(record as IntruderLog);
+    const sealed = await sealJson(publicKey, details);
+    await idbUpdate<StoredLog>(STORES.INTRUDER_LOGS, record.id, current => ({ ...envelope, delivery: current.delivery, sealed }));
+  }
+
+  for (const media of await idbGetAll<StoredLogMedia>(STORES.LOG_MEDIA)) {
+    if (!media.blob) continue;
+    const sealed = await sealBytes(publicKey, await media.blob.arrayBuffer());
+    await runTransaction([STORES.LOG_MEDIA], 'readwrite', tx => {
+      tx.objectStore(STORES.LOG_MEDIA).put({ id: media.id, logId: media.logId, mimeType: media.mimeType, sealed });
+    });
+  }
+};
+
+const openLog = async (privateKey: CryptoKey, record: StoredLog): Promise<IntruderLog> => {
+  const { sealed, sealedAnalysis, attemptNumber, aiAnalysis, face, faceHash, suspectId, duress, ...envelope } = record;
+  const details: LogDetails = sealed
+    ? await openSealedJson<LogDetails>(privateKey, sealed)
+    : { attemptNumber: attemptNumber ?? 0, aiAnalysis, face, faceHash, suspectId, duress };
+  if (sealedAnalysis) {
+    details.aiAnalysis = await openSealedJson<ThreatAnalysis>(privateKey, sealedAnalysis);
+  }
+  return { ...envelope, ...details };
+};
+
+export const listLogs = async (privateKey: CryptoKey): Promise<IntruderLog[]> => {
+  const records = await idbGetAll<StoredLog>(STORES.INTRUDER_LOGS);
+  const logs = await Promise.all(records.map(record => openLog(privateKey, record)));
+  return logs.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Records alert progress. Delivery status is kept in the clear so the outbox can
+ * update it while LOCKED.
+ */
+export const updateLogDelivery = async (id: string, delivery: AlertDelivery): Promise<AlertDelivery[] | undefined> => {
+  const updated = await idbUpdate<StoredLog>(STORES.INTRUDER_LOGS, id, record => ({
+    ...record,
+    delivery: mergeDelivery(record.delivery, delivery),
+  }));
+  return updated?.delivery;
+};
+
+/**
+ * Changes sealed fields (such as the AI analysis). Requires the private key to
+ * read the current details before re-sealing them.
+ */
+export const updateLogDetails = async (
+  id: string,
+  privateKey: CryptoKey,
+  patch: Partial<LogDetails>
+): Promise<IntruderLog | undefined> => {
+  const record = await idbGet<StoredLog>(STORES.INTRUDER_LOGS, id);
+  const publicKey = await getLogPublicKey();
+  if (!record || !publicKey) return undefined;
+
+  const current = await openLog(privateKey, record);
+  const { details } = splitDetails({ ...current, ...patch });
+  const sealed = await sealJson(publicKey, details);
+
+  // Only replace the sealed part; delivery may have changed in the meantime
+  const updated = await idbUpdate<StoredLog>(STORES.INTRUDER_LOGS, id, latest => {
+    const { attemptNumber, aiAnalysis, face, faceHash, suspectId, duress, sealedAnalysis, ...envelope } = latest;
+    return { ...envelope, sealed };
+  });
+  return updated && { ...current, ...patch, delivery: updated.delivery };
+};
+
+/**
+ * Stores an analysis without needing the private key, so background analysis can
+ * finish while LOCKED. Plaintext records (no key pair yet) get it in the clear
+ * and are sealed with everything else on the next unlock.
+ */
+export const attachLogAnalysis = async (id: string, analysis: ThreatAnalysis): Promise<void> => {
+  const publicKey = await getLogPublicKey();
+  const sealedAnalysis = publicKey ? await sealJson(publicKey, analysis) : undefined;
+  await idbUpdate<StoredLog>(STORES.INTRUDER_LOGS, id, record =>
+    record.sealed && sealedAnalysis ? { ...record, sealedAnalysis } : { ...record, aiAnalysis: analysis }
+  );
+};
+
+// Incident reports are keyed by their first log, so they go with it
+export const deleteLogs = (ids: string[]): Promise<void> =>
+  runTransaction([STORES.INTRUDER_LOGS, STORES.LOG_MEDIA, STORES.INCIDENT_REPORTS], 'readwrite', tx => {
+    const logs = tx.objectStore(STORES.INTRUDER_LOGS);
+    const media = tx.objectStore(STORES.LOG_MEDIA);
+    const reports = tx.objectStore(STORES.INCIDENT_REPORTS);
+    for (const id of ids) {
+      logs.delete(id);
+      reports.delete(id);
+      const keys = media.index(LOG_MEDIA_BY_LOG).getAllKeys(id);
+      keys.onsuccess = () => keys.result.forEach(key => media.delete(key));
+    }
+  });
+
+/**
+ * Everything captured for a log. Logs from before burst capture only have their
+ * single photo, described here from the envelope.
+ */
+export const listLogMedia = (log: IntruderLog): IntruderMedia[] =>
+  log.media ?? [{ id: log.imageId, kind: 'image', mimeType: 'image/jpeg', bytes: log.bytes, capturedAt: log.timestamp }];
+
+export const getLogMedia = async (mediaId: string, privateKey: CryptoKey): Promise<Blob | null> => {
+  const media = await idbGet<StoredLogMedia>(STORES.LOG_MEDIA, mediaId);
+  if (!media) return null;
+  if (!media.sealed) return media.blob ?? null;
+  return new Blob([await openSealedBytes(privateKey, media.sealed)], { type: media.mimeType });
+};
+
+export const getLogMediaDataUrl = async (mediaId: string, privateKey: CryptoKey): Promise<string | null> => {
+  const blob = await getLogMedia(mediaId, privateKey);
+  return blob ? blobToDataUrl(blob) : null;
+};
+
+type RetentionCandidate = Pick<IntruderLog, 'id' | 'timestamp' | 'bytes'>;
+
+/**
+ * Picks which logs fall outside the retention policy. Oldest logs go first:
+ * anything past maxAgeDays, then beyond maxCount, then until under maxBytes.
+ */
+export const selectExpiredLogs = (logs: RetentionCandidate[], policy: RetentionPolicy, now: number = Date.now()): string[] => {
+  const newestFirst = [...logs].sort((a, b) => b.timestamp - a.timestamp);
+  const expired = new Set<string>();
+
+  if (policy.maxAgeDays > 0) {
+    const cutoff = now - policy.maxAgeDays * DAY_MS;
+    newestFirst.filter(l => l.timestamp < cutoff).forEach(l => expired.add(l.id));
+  }
+
+  let kept = newestFirst.filter(l => !expired.has(l.id));
+  if (policy.maxCount > 0 && kept.length > policy.maxCount) {
+    kept.slice(policy.maxCount).forEach(l => expired.add(l.id));
+    kept = kept.slice(0, policy.maxCount);
+  }
+
+  if (policy.maxBytes > 0) {
+    let total = kept.reduce((sum, l) => sum + l.bytes, 0);
+    for (let i = kept.length - 1; i >= 0 && total > policy.maxBytes; i--) {
+      expired.add(kept[i].id);
+      total -= kept[i].bytes;
+    }
+  }
+
+  return [...expired];
+};
+
+/**
+ * Deletes logs outside the retention policy. Works while LOCKED since it only
+ * reads the plaintext envelope. Each profile's policy covers the attempts on
+ * that profile. Returns the ids that were removed.
+ */
+export const pruneLogs = async (policy: RetentionPolicy, profileId: string = getActiveProfileId()): Promise<string[]> => {
+  const records = (await idbGetAll<StoredLog>(STORES.INTRUDER_LOGS))
+    .filter(record => (record.profileId ?? DEFAULT_PROFILE_ID) === profileId);
+  const expired = selectExpiredLogs(records, policy);
+  if (expired.length > 0) {
+    await deleteLogs(expired);
+  }
+  return expired;
+};
+
+export const getStorageUsage = async (logs: IntruderLog[]): Promise<StorageUsage> => {
+  const usage: StorageUsage = {
+    logCount: logs.length,
+    logBytes: logs.reduce((sum, l) => sum + l.bytes, 0),
+  };
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.usage = estimate.usage;
+    usage.quota = estimate.quota;
+  }
+  if (navigator.storage?.persisted) usage.persisted = await navigator.storage.persisted();
+  return usage;
+};
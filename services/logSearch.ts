@@ -0,0 +1,174 @@
+import { IntruderLog } from '../types';
+import { isStructuredAnalysis } from './threatAnalysis';
+
+// Runs entirely on-device over decrypted logs: the query is parsed with simple
+// rules into time, day and threat filters, and whatever is left is matched as
+// keywords against the stored analyses.
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface LogQuery {
+  timesOfDay: TimeOfDay[];
+  weekdays: number[]; // 0 = Sunday
+  since?: number;
+  until?: number;
+  minThreat?: number;
+  maxThreat?: number;
+  terms: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TIMES_OF_DAY: Record<string, TimeOfDay> = {
+  morning: 'morning', mornings: 'morning',
+  afternoon: 'afternoon', afternoons: 'afternoon',
+  evening: 'evening', evenings: 'evening',
+  night: 'night', nights: 'night', nighttime: 'night', overnight: 'night', midnight: 'night',
+};
+
+// Start hour inclusive, end hour exclusive; night wraps past midnight
+const TIME_OF_DAY_HOURS: Record<TimeOfDay, [number, number]> = {
+  morning: [5, 12],
+  afternoon: [12, 17],
+  evening: [17, 21],
+  night: [21, 5],
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'at', 'on', 'in', 'by', 'of', 'and', 'or', 'with', 'who', 'was', 'were', 'is', 'are',
+  'attempt', 'attempts', 'attempted', 'log', 'logs', 'capture', 'captures', 'someone', 'somebody', 'person',
+  'people', 'anyone', 'wearing', 'wore', 'having', 'had', 'has', 'show', 'me', 'all', 'any', 'from', 'during',
+  'level', 'time', 'times', 'intruder', 'intruders', 'failed', 'unlock', 'that', 'looked', 'looking', 'seemed',
+]);
+
+// A few common ways of describing the same feature
+const SYNONYMS: Record<string, string[]> = {
+  glasses: ['glasses', 'spectacles', 'eyewear', 'sunglasses'],
+  hat: ['hat', 'cap', 'beanie'],
+  hood: ['hood', 'hoodie'],
+  beard: ['beard', 'facial hair', 'stubble'],
+  mask: ['mask', 'face covering'],
+  angry: ['angry', 'malicious', 'hostile', 'aggressive'],
+  nervous: ['nervous', 'anxious', 'worried'],
+  dark: ['dark', 'dim', 'low light'],
+};
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const parseLogQuery = (text: string, now: number = Date.now()): LogQuery => {
+  const tokens = text.toLowerCase().split(/[^a-z0-9+]+/).filter(Boolean);
+  const query: LogQuery = { timesOfDay: [], weekdays: [], terms: [] };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    if (TIMES_OF_DAY[token]) {
+      query.timesOfDay.push(TIMES_OF_DAY[token]);
+    } else if (WEEKDAYS.includes(token.replace(/s$/, ''))) {
+      query.weekdays.push(WEEKDAYS.indexOf(token.replace(/s$/, '')));
+    } else if (token === 'weekend' || token === 'weekends') {
+      query.weekdays.push(0, 6);
+    } else if (token === 'weekday' || token === 'weekdays') {
+      query.weekdays.push(1, 2, 3, 4, 5);
+    } else if (token === 'today') {
+      query.since = startOfDay(now);
+    } else if (token === 'yesterday') {
+      query.since = startOfDay(now) - DAY_MS;
+      query.until = startOfDay(now);
+    } else if ((token === 'this' || token === 'last' || token === 'past') && (next === 'week' || next === 'month')) {
+      query.since = now - (next === 'week' ? 7 : 30) * DAY_MS;
+      i++;
+    } else if (token === 'threat' && next && /^[1-5]\+?$/.test(next)) {
+      query.minThreat = parseInt(next);
+      if (!next.endsWith('+')) query.maxThreat = query.minThreat;
+      i++;
+    } else if ((token === 'high' || token === 'severe' || token === 'low') && (next === 'threat' || next === 'risk')) {
+      if (token === 'low') query.maxThreat = 2;
+      else query.minThreat = token === 'severe' ? 5 : 4;
+      i++;
+    } else if (token === 'dangerous' || token === 'threatening') {
+      query.minThreat = 4;
+    } else if (!STOPWORDS.has(token)) {
+      query.terms.push(token);
+    }
+  }
+  return query;
+};
+
+export const isEmptyQuery = (query: LogQuery): boolean =>
+  query.timesOfDay.length === 0 && query.weekdays.length === 0 && query.terms.length === 0
+  && query.since === undefined && query.minThreat === undefined && query.maxThreat === undefined;
+
+/**
+ * Human-readable chips for what the parser understood, so it is clear why logs matched.
+ */
+export const describeLogQuery = (query: LogQuery): string[] => {
+  const chips: string[] = [...new Set(query.timesOfDay)];
+  [...new Set(query.weekdays)].forEach(day => chips.push(WEEKDAYS[day][0].toUpperCase() + WEEKDAYS[day].slice(1)));
+  if (query.since !== undefined) {
+    chips.push(query.until !== undefined ? new Date(query.since).toLocaleDateString() : `since ${new Date(query.since).toLocaleDateString()}`);
+  }
+  if (query.minThreat !== undefined && query.minThreat === query.maxThreat) chips.push(`threat ${query.minThreat}`);
+  else {
+    if (query.minThreat !== undefined) chips.push(`threat ≥ ${query.minThreat}`);
+    if (query.maxThreat !== undefined) chips.push(`threat ≤ ${query.maxThreat}`);
+  }
+  query.terms.forEach(term => chips.push(`"${term}"`));
+  return chips;
+};
+
+const inTimeOfDay = (timestamp: number, timeOfDay: TimeOfDay) => {
+  const hour = new Date(timestamp).getHours();
+  const [start, end] = TIME_OF_DAY_HOURS[timeOfDay];
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+};
+
+const searchableText = (log: IntruderLog, extra: string[]) => {
+  const analysis = log.aiAnalysis;
+  const parts = !analysis
+    ? []
+    : isStructuredAnalysis(analysis)
+      ? [analysis.expression, analysis.environment, analysis.summary ?? '', ...analysis.distinctiveFeatures]
+      : [analysis];
+  return [...parts, ...extra].join(' ').toLowerCase();
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, so "hat" finds "hats" but not "that" or "hatch"
+const matchesTerm = (text: string, term: string) => {
+  const stem = term.length > 3 ? term.replace(/(es|s)$/, '') : term;
+  const variants = SYNONYMS[term] ?? SYNONYMS[stem] ?? [term, stem];
+  return variants.some(variant => new RegExp(`\\b${escapeRegExp(variant)}(?:e?s)?\\b`).test(text));
+};
+
+/**
+ * Whether a log satisfies every part of the query. `extraText` (such as the
+ * suspect's name) is searched alongside the analysis.
+ */
+export const matchesLogQuery = (log: IntruderLog, query: LogQuery, extraText: string[] = []): boolean => {
+  if (query.timesOfDay.length > 0 && !query.timesOfDay.some(t => inTimeOfDay(log.timestamp, t))) return false;
+  if (query.weekdays.length > 0 && !query.weekdays.includes(new Date(log.timestamp).getDay())) return false;
+  if (query.since !== undefined && log.timestamp < query.since) return false;
+  if (query.until !== undefined && log.timestamp >= query.until) return false;
+
+  if (query.minThreat !== undefined || query.maxThreat !== undefined) {
+    if (!log.aiAnalysis || !isStructuredAnalysis(log.aiAnalysis)) return false;
+    const level = log.aiAnalysis.threatLevel;
+    if (query.minThreat !== undefined && level < query.minThreat) return false;
+    if (query.maxThreat !== undefined && level > query.maxThreat) return false;
+  }
+
+  if (query.terms.length > 0) {
+    const text = searchableText(log, extraText);
+    if (!query.terms.every(term => matchesTerm(text, term))) return false;
+  }
+  return true;
+};
@@ -0,0 +1,58 @@
+// Conversions between the data URLs produced by <canvas> and the Blobs kept in IndexedDB.
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+/**
+ * File extension for a capture's MIME type, ignoring parameters such as codecs.
+ */
+export const fileExtension = (mimeType: string): string => EXTENSIONS[mimeType.split(';')[0]] ?? 'bin';
+
+/**
+ * The MIME type and Base64 payload of a data URL. Bare Base64 is taken to be a JPEG.
+ */
+export const splitDataUrl = (dataUrl: string): { mimeType: string; base64: string } => {
+  const match = dataUrl.match(/^data:([^;]+);base64,/);
+  return match
+    ? { mimeType: match[1], base64: dataUrl.slice(match[0].length) }
+    : { mimeType: 'image/jpeg', base64: dataUrl };
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+/**
+ * Saves a Blob through a temporary link, as the browser's download.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,75 @@
+const SERVICE_WORKER_URL = './sw.js';
+const FLUSH_SYNC_TAG = 'vaultguard-flush';
+const FLUSH_MESSAGE = 'vaultguard-flush';
+
+// Background Sync is Chromium-only and not in the DOM typings yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/**
+ * Installs the service worker that keeps the app shell cached, so the vault
+ * still opens with no network. Skipped in development, where Vite serves
+ * modules that change on every edit.
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    const registration = await navigator.serviceWorker.ready;
+    // The page was fetched before the worker existed; hand it what was loaded so a first visit works offline too
+    const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)];
+    registration.active?.postMessage({ type: 'cache-urls', urls });
+  } catch (e) {
+    console.error("Failed to register service worker", e);
+  }
+};
+
+/**
+ * Asks the browser not to evict this site's storage under pressure, which would
+ * silently delete intruder logs. Returns whether storage is now persistent.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return (await navigator.storage.persisted()) || (await navigator.storage.persist());
+  } catch (e) {
+    console.error("Failed to request persistent storage", e);
+    return false;
+  }
+};
+
+export const isStoragePersisted = async (): Promise<boolean> =>
+  navigator.storage?.persisted ? navigator.storage.persisted() : false;
+
+/**
+ * Asks the service worker to wake the app once connectivity returns, even if
+ * the tab is in the background. Alerts and analyses need settings and keys
+ * that only the page holds, so the worker cannot send them itself.
+ */
+export const requestBackgroundSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration: SyncRegistration | undefined = await navigator.serviceWorker.getRegistration();
+    await registration?.sync?.register(FLUSH_SYNC_TAG);
+  } catch (e) {
+    // Denied or unsupported; the page still flushes on 'online' while it is open
+    console.error("Failed to register background sync", e);
+  }
+};
+
+/**
+ * Calls the listener when the browser comes back online or the service worker
+ * reports a background sync. Returns an unsubscribe function.
+ */
+export const subscribeToReconnect = (listener: () => void): (() => void) => {
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === FLUSH_MESSAGE) listener();
+  };
+  window.addEventListener('online', listener);
+  navigator.serviceWorker?.addEventListener('message', onMessage);
+  return () => {
+    window.removeEventListener('online', listener);
+    navigator.serviceWorker?.removeEventListener('message', onMessage);
+  };
+};
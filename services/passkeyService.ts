@@ -0,0 +1,227 @@
+import { PBKDF2_ITERATIONS, base64ToBytes, bytesToBase64, derivePasscodeHash, randomBytes } from './cryptoService';
+import { profileStorageKey } from './profileService';
+import { removeVaultKey, storeVaultKey } from './vaultService';
+
+const passkeyStorageKey = () => profileStorageKey('passkey');
+const PRF_KEY_INFO = new TextEncoder().encode('vaultguard-passkey-wrap-v1');
+const PRF_PASSCODE_KEY_INFO = new TextEncoder().encode('vaultguard-passkey-passcode-wrap-v1');
+const CEREMONY_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * An enrolled WebAuthn credential. There is no server to verify assertions, so
+ * the signature is not what protects the vault: the credential's PRF output
+ * (hmac-secret) is, since only the authenticator can produce it, and only after
+ * user verification. That output wraps its own copy of the vault data key.
+ *
+ * When both factors are required, the copy is wrapped with a key derived from
+ * the PRF output and the stretched passcode together, and the passcode-only copy
+ * is removed, so neither factor alone can decrypt anything.
+ */
+interface StoredPasskey {
+  credentialId: string; // Base64
+  prfSalt: string; // Base64
+  vaultKey: { iv: string; data: string }; // Base64, data key wrapped with the PRF-derived key
+  passcode?: { salt: string; iterations: number }; // Stretching parameters, set while both factors are required
+  requirePasscode: boolean; // Both factors needed to unlock
+  createdAt: number;
+}
+
+export interface PasskeyInfo {
+  requirePasscode: boolean;
+  createdAt: number;
+}
+
+const readPasskey = (): StoredPasskey | null => {
+  const saved = localStorage.getItem(passkeyStorageKey());
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse passkey", e);
+    return null;
+  }
+};
+
+export const isPasskeySupported = (): boolean =>
+  typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
+
+export const getPasskeyInfo = (): PasskeyInfo | null => {
+  const stored = readPasskey();
+  return stored && { requirePasscode: stored.requirePasscode, createdAt: stored.createdAt };
+};
+
+const derivePrfKey = async (prfOutput: BufferSource, salt: Uint8Array<ArrayBuffer>, stretchedPasscode?: Uint8Array): Promise<CryptoKey> => {
+  const prfBytes = ArrayBuffer.isView(prfOutput)
+    ? new Uint8Array(prfOutput.buffer, prfOutput.byteOffset, prfOutput.byteLength)
+    : new Uint8Array(prfOutput);
+  const input = stretchedPasscode ? new Uint8Array([...prfBytes, ...stretchedPasscode]) : prfBytes;
+  const material = await crypto.subtle.importKey('raw', input, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: stretchedPasscode ? PRF_PASSCODE_KEY_INFO : PRF_KEY_INFO },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+// Wraps the data key for this credential, with the passcode mixed in when one is given
+const wrapForPasskey = async (
+  dataKey: CryptoKey,
+  prfOutput: BufferSource,
+  prfSalt: Uint8Array<ArrayBuffer>,
+  passcode?: string
+): Promise<Pick<StoredPasskey, 'vaultKey' | 'passcode'>> => {
+  const passcodeSalt = randomBytes(16);
+  const stretched = passcode === undefined ? undefined : await derivePasscodeHash(passcode, passcodeSalt, PBKDF2_ITERATIONS);
+  const iv = randomBytes(12);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, await derivePrfKey(prfOutput, prfSalt, stretched), { name: 'AES-GCM', iv });
+  return {
+    vaultKey: { iv: bytesToBase64(iv), data: bytesToBase64(wrapped) },
+    passcode: stretched && { salt: bytesToBase64(passcodeSalt), iterations: PBKDF2_ITERATIONS },
+  };
+};
+
+// Runs an assertion against the enrolled credential and returns its PRF output for the salt
+const evaluatePrf = async (credentialId: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>): Promise<BufferSource> => {
+  let assertion: Credential | null;
+  try {
+    assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: randomBytes(32),
+        allowCredentials: [{ type: 'public-key', id: credentialId }],
+        userVerification: 'required',
+        timeout: CEREMONY_TIMEOUT_MS,
+        extensions: { prf: { eval: { first: salt } } },
+      },
+    });
+  } catch (err) {
+    throw new Error(err instanceof Error && err.name === 'NotAllowedError'
+      ? 'Passkey verification was cancelled or failed.'
+      : 'Passkey verification failed.');
+  }
+  const output = (assertion as PublicKeyCredential | null)?.getClientExtensionResults().prf?.results?.first;
+  if (!output) throw new Error('This passkey did not return a key.');
+  return output;
+};
+
+/**
+ * Registers a platform authenticator or security key and wraps the vault data
+ * key with it. Rejects authenticators without PRF support, since they could
+ * only gate the UI and not actually protect the key.
+ */
+export const enrollPasskey = async (dataKey: CryptoKey): Promise<PasskeyInfo> => {
+  const prfSalt = randomBytes(32);
+  let credential: PublicKeyCredential;
+  try {
+    credential = await navigator.credentials.create({
+      publicKey: {
+        rp: { name: 'VaultGuard' },
+        user: { id: randomBytes(16), name: 'vaultguard', displayName: 'VaultGuard' },
+        challenge: randomBytes(32),
+        pubKeyCredParams: [
+          { type: 'public-key', alg: -7 }, // ES256
+          { type: 'public-key', alg: -257 }, // RS256
+        ],
+        authenticatorSelection: { userVerification: 'required', residentKey: 'discouraged' },
+        timeout: CEREMONY_TIMEOUT_MS,
+        extensions: { prf: { eval: { first: prfSalt } } },
+      },
+    }) as PublicKeyCredential;
+  } catch (err) {
+    console.error("Passkey registration failed", err);
+    throw new Error('Passkey registration was cancelled or failed.');
+  }
+
+  const prf = credential.getClientExtensionResults().prf;
+  if (!prf?.enabled && !prf?.results) {
+    throw new Error('This authenticator cannot protect the vault key (it does not support the PRF extension).');
+  }
+
+  // Some authenticators only evaluate the PRF during an assertion, not at registration
+  const credentialId = new Uint8Array(credential.rawId);
+  const prfOutput = prf.results?.first ?? await evaluatePrf(credentialId, prfSalt);
+
+  const stored: StoredPasskey = {
+    credentialId: bytesToBase64(credentialId),
+    prfSalt: bytesToBase64(prfSalt),
+    ...await wrapForPasskey(dataKey, prfOutput, prfSalt),
+    requirePasscode: false,
+    createdAt: Date.now(),
+  };
+  localStorage.setItem(passkeyStorageKey(), JSON.stringify(stored));
+  return { requirePasscode: stored.requirePasscode, createdAt: stored.createdAt };
+};
+
+/**
+ * Asks the authenticator to verify the user and unwraps the vault data key with
+ * its PRF output, plus the passcode when both factors are required. The browser
+ * reports a cancelled prompt and a failed fingerprint the same way, so callers
+ * treat any rejection as a failed unlock attempt.
+ */
+export const unlockWithPasskey = async (passcode?: string): Promise<CryptoKey> => {
+  const stored = readPasskey();
+  if (!stored) throw new Error('No passkey is set up.');
+  if (stored.passcode && passcode === undefined) throw new Error('This passkey also needs the passcode.');
+
+  const salt = base64ToBytes(stored.prfSalt);
+  const prfOutput = await evaluatePrf(base64ToBytes(stored.credentialId), salt);
+  const stretched = stored.passcode && passcode !== undefined
+    ? await derivePasscodeHash(passcode, base64ToBytes(stored.passcode.salt), stored.passcode.iterations)
+    : undefined;
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      base64ToBytes(stored.vaultKey.data),
+      await derivePrfKey(prfOutput, salt, stretched),
+      { name: 'AES-GCM', iv: base64ToBytes(stored.vaultKey.iv) },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    throw new Error('This passkey does not match the vault.');
+  }
+};
+
+/**
+ * Switches between the passkey alone and passkey plus passcode. Either way the
+ * authenticator is asked again, since the PRF output is never stored. Requiring
+ * both replaces the passkey's copy of the data key with one that needs both and
+ * removes the passcode-only copy; allowing the passkey alone restores both
+ * single-factor copies. Also re-wraps for a new passcode while both are required.
+ * The caller must have checked the passcode, or the vault could become unopenable.
+ */
+export const setPasskeyRequiresPasscode = async (
+  dataKey: CryptoKey,
+  passcode: string,
+  requirePasscode: boolean
+): Promise<PasskeyInfo> => {
+  const stored = readPasskey();
+  if (!stored) throw new Error('No passkey is set up.');
+
+  const salt = base64ToBytes(stored.prfSalt);
+  const prfOutput = await evaluatePrf(base64ToBytes(stored.credentialId), salt);
+  const next: StoredPasskey = {
+    ...stored,
+    ...await wrapForPasskey(dataKey, prfOutput, salt, requirePasscode ? passcode : undefined),
+    requirePasscode,
+  };
+
+  if (requirePasscode) {
+    localStorage.setItem(passkeyStorageKey(), JSON.stringify(next));
+    removeVaultKey();
+  } else {
+    // The passcode copy goes back first, so there is never a moment with neither
+    await storeVaultKey(dataKey, passcode);
+    localStorage.setItem(passkeyStorageKey(), JSON.stringify(next));
+  }
+  return { requirePasscode: next.requirePasscode, createdAt: next.createdAt };
+};
+
+/**
+ * Forgets the credential. It stays on the authenticator, but no longer opens anything.
+ */
+export const removePasskey = (): void => {
+  localStorage.removeItem(passkeyStorageKey());
+};
@@ -0,0 +1,38 @@
+import { PasscodeMode, Profile, ProfileRole } from '../types';
+import { policyForPasscode, savePasscodePolicy, setPasscode } from './credentialService';
+import { createVaultKey, wipeVault } from './vaultService';
+import { enrollRecoveryCode } from './recoveryService';
+import { grantLogKey } from './logKeyService';
+import { forgetProfile, saveProfile } from './profileService';
+
+/**
+ * Sets up a profile with its own passcode, vault key and recovery code, and
+ * gives it a copy of the log private key. Runs in an unlocked admin session,
+ * since sharing the log key needs it decrypted. The profile is listed last, so
+ * a failure part-way never leaves a profile in the picker that cannot unlock.
+ */
+export const createProfile = async (
+  name: string,
+  role: ProfileRole,
+  passcode: string,
+  mode: PasscodeMode,
+  logKey: CryptoKey
+): Promise<{ profile: Profile; recoveryCode: string }> => {
+  const profile: Profile = { id: crypto.randomUUID(), name: name.trim(), role, createdAt: Date.now() };
+  const dataKey = await createVaultKey(passcode, profile.id);
+  await setPasscode(passcode, profile.id);
+  savePasscodePolicy(policyForPasscode(passcode, mode), profile.id);
+  await grantLogKey(logKey, dataKey, profile.id);
+  const recoveryCode = await enrollRecoveryCode(dataKey, profile.id);
+  saveProfile(profile);
+  return { profile, recoveryCode };
+};
+
+/**
+ * Deletes a profile's documents, passcode, keys and settings. Intruder logs of
+ * attempts on it are evidence and stay for admins to review.
+ */
+export const deleteProfile = async (id: string): Promise<void> => {
+  await wipeVault(id);
+  forgetProfile(id);
+};
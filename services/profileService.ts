@@ -0,0 +1,110 @@
+import { Profile, ProfileRole } from '../types';
+
+const STORAGE_PREFIX = 'vault_guard_';
+const PROFILES_STORAGE_KEY = 'vault_guard_profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'vault_guard_active_profile';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Installs from before profiles had exactly one user, who owns everything already stored
+const DEFAULT_PROFILE: Profile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Owner',
+  role: 'admin',
+  createdAt: 0,
+};
+
+export const MAX_PROFILE_NAME_LENGTH = 32;
+
+/**
+ * Where a per-profile value lives in localStorage. The default profile keeps the
+ * keys it had before profiles existed, so upgrading moves nothing.
+ */
+export const profileStorageKey = (name: string, profileId: string = getActiveProfileId()): string =>
+  profileId === DEFAULT_PROFILE_ID ? `${STORAGE_PREFIX}${name}` : `${STORAGE_PREFIX}profile_${profileId}_${name}`;
+
+export const listProfiles = (): Profile[] => {
+  const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+  if (!saved) return [DEFAULT_PROFILE];
+  try {
+    const profiles: Profile[] = JSON.parse(saved);
+    return profiles.length > 0 ? profiles : [DEFAULT_PROFILE];
+  } catch (e) {
+    console.error("Failed to parse profiles", e);
+    return [DEFAULT_PROFILE];
+  }
+};
+
+const saveProfiles = (profiles: Profile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const getProfile = (id: string): Profile | undefined => listProfiles().find(p => p.id === id);
+
+export const getActiveProfileId = (): string => {
+  const saved = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+  return saved && getProfile(saved) ? saved : DEFAULT_PROFILE_ID;
+};
+
+export const getActiveProfile = (): Profile => getProfile(getActiveProfileId()) ?? DEFAULT_PROFILE;
+
+/**
+ * Picks the profile the LOCKED view unlocks. Every per-profile service reads and
+ * writes this profile's keys from now on.
+ */
+export const setActiveProfile = (id: string): Profile => {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+  return getActiveProfile();
+};
+
+/**
+ * Returns a user-facing reason the profile name is not acceptable, or null if it is.
+ */
+export const validateProfileName = (name: string, exceptId?: string, existing: Profile[] = listProfiles()): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Enter a name.';
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) return `Use at most ${MAX_PROFILE_NAME_LENGTH} characters.`;
+  if (existing.some(p => p.id !== exceptId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+    return 'Another profile already has this name.';
+  }
+  return null;
+};
+
+export const saveProfile = (profile: Profile): void => {
+  const profiles = listProfiles();
+  saveProfiles(profiles.some(p => p.id === profile.id)
+    ? profiles.map(p => (p.id === profile.id ? profile : p))
+    : [...profiles, profile]);
+};
+
+/**
+ * Changes a profile's name or role. The last admin cannot be demoted, or nobody
+ * could manage profiles or read the audit trail.
+ */
+export const updateProfile = (id: string, patch: { name?: string; role?: ProfileRole }): Profile => {
+  const profile = getProfile(id);
+  if (!profile) throw new Error(`Profile ${id} not found`);
+  if (patch.role === 'member' && profile.role === 'admin' && countAdmins() === 1) {
+    throw new Error('At least one profile must stay an admin.');
+  }
+  const updated = { ...profile, ...patch, name: (patch.name ?? profile.name).trim() };
+  saveProfile(updated);
+  return updated;
+};
+
+/**
+ * Forgets a profile and every localStorage value scoped to it. Its documents
+ * are removed separately; its intruder logs stay, as evidence.
+ */
+export const forgetProfile = (id: string): void => {
+  if (id === DEFAULT_PROFILE_ID) throw new Error('The original profile cannot be deleted.');
+  const prefix = profileStorageKey('', id);
+  Object.keys(localStorage).filter(key => key.startsWith(prefix)).forEach(key => localStorage.removeItem(key));
+  saveProfiles(listProfiles().filter(p => p.id !== id));
+  if (localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) === id) localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+};
+
+export const countAdmins = (): number => listProfiles().filter(p => p.role === 'admin').length;
+
+export const profileName = (id: string | undefined): string =>
+  getProfile(id ?? DEFAULT_PROFILE_ID)?.name ?? 'Deleted profile';
@@ -0,0 +1,11 @@
+// Prompts shared by every analysis provider
+
+export const DEFAULT_ANALYSIS_PROMPT =
+  "You are a security system AI. Analyze this image of a person attempting unauthorized access for a security log: their approximate age, facial expression, current environment, any distinctive features, and how threatening the attempt appears.";
+
+// Appended to the analysis prompt when several unrelated captures go in one request
+export const batchPrompt = (count: number): string =>
+  `There are ${count} photos, each from a separate capture. Analyze every photo on its own, as described above, and return one analysis per photo in the order the photos were given.`;
+
+export const INCIDENT_PROMPT =
+  "You are a security system AI. These photos were taken during consecutive failed attempts to unlock a protected device, in order. Write a short narrative of the incident for a security log: who appears, whether it is the same person throughout, how their behaviour changes between attempts, and how threatening the incident is overall.";
@@ -0,0 +1,101 @@
+import { PasscodeMode, PasscodePolicy } from '../types';
+import { WrappedKey, unwrapDataKey, wrapDataKey } from './cryptoService';
+import { PasscodeVerifier, createVerifier, matchesVerifier, replacePasscode } from './credentialService';
+import { getPasskeyInfo, removePasskey } from './passkeyService';
+import { profileStorageKey } from './profileService';
+
+const recoveryStorageKey = (profileId?: string) => profileStorageKey('recovery', profileId);
+
+// Crockford-style alphabet without look-alike characters (0/O, 1/I/L, U)
+const ALPHABET = 'ABCDEFGHJKMNPQRSTVWXYZ23456789';
+const CODE_LENGTH = 20;
+const GROUP_SIZE = 4;
+
+/**
+ * The recovery code is stored the same way as the passcode (a hashed verifier),
+ * plus its own wrapped copy of the vault key so a reset keeps every document.
+ */
+interface RecoveryRecord {
+  verifier: PasscodeVerifier;
+  vaultKey: WrappedKey;
+  createdAt: number;
+}
+
+const readRecord = (): RecoveryRecord | null => {
+  const saved = localStorage.getItem(recoveryStorageKey());
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse recovery record", e);
+    return null;
+  }
+};
+
+/**
+ * A fresh code in the display format. Also shown by the decoy vault, which never stores it.
+ */
+export const generateRecoveryCode = (): string => {
+  const chars: string[] = [];
+  // Rejection sampling keeps every character equally likely
+  const limit = 256 - (256 % ALPHABET.length);
+  while (chars.length < CODE_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(CODE_LENGTH))) {
+      if (byte < limit && chars.length < CODE_LENGTH) {
+        chars.push(ALPHABET[byte % ALPHABET.length]);
+      }
+    }
+  }
+  const groups: string[] = [];
+  for (let i = 0; i < CODE_LENGTH; i += GROUP_SIZE) {
+    groups.push(chars.slice(i, i + GROUP_SIZE).join(''));
+  }
+  return groups.join('-');
+};
+
+/**
+ * Strips separators and case so codes typed with or without dashes match.
+ */
+const normalizeCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const hasRecoveryCode = (): boolean => readRecord() !== null;
+
+export const getRecoveryCodeCreatedAt = (): number | null => readRecord()?.createdAt ?? null;
+
+/**
+ * Generates a new recovery code for the vault key, invalidating any previous one.
+ * The plaintext code is returned once and never stored.
+ */
+export const enrollRecoveryCode = async (dataKey: CryptoKey, profileId?: string): Promise<string> => {
+  const code = generateRecoveryCode();
+  const normalized = normalizeCode(code);
+  const record: RecoveryRecord = {
+    verifier: await createVerifier(normalized),
+    vaultKey: await wrapDataKey(dataKey, normalized),
+    createdAt: Date.now(),
+  };
+  localStorage.setItem(recoveryStorageKey(profileId), JSON.stringify(record));
+  return code;
+};
+
+/**
+ * Resets a forgotten passcode. Returns null if the recovery code is wrong;
+ * otherwise the new passcode policy and a fresh recovery code, since the
+ * used one is consumed. A passkey that also needed the old passcode can never
+ * open the vault again, so it is removed.
+ */
+export const resetPasscodeWithRecoveryCode = async (
+  code: string,
+  passcode: string,
+  mode: PasscodeMode
+): Promise<{ policy: PasscodePolicy; recoveryCode: string } | null> => {
+  const record = readRecord();
+  const normalized = normalizeCode(code);
+  if (!record || !(await matchesVerifier(normalized, record.verifier))) return null;
+
+  const dataKey = await unwrapDataKey(record.vaultKey, normalized);
+  if (getPasskeyInfo()?.requirePasscode) removePasskey();
+  const policy = await replacePasscode(dataKey, passcode, mode);
+  const recoveryCode = await enrollRecoveryCode(dataKey);
+  return { policy, recoveryCode };
+};
@@ -0,0 +1,86 @@
+import { base64ToBytes, bytesToBase64, openSealedBytes, sealBytes, sha256Hex } from './cryptoService';
+import { getLogPublicKey } from './logKeyService';
+
+const SIGNING_KEY_STORAGE_KEY = 'vault_guard_signing_key';
+const SIGNING_KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export const SIGNATURE_DESCRIPTION = 'ECDSA P-256 with SHA-256, IEEE P1363 (r || s)';
+
+/**
+ * This device's key for signing evidence exports. The private half is sealed
+ * with the log key, so only an unlocked profile can sign; the public half goes
+ * into every archive so a recipient can check the signature.
+ */
+interface StoredSigningKey {
+  publicKey: JsonWebKey;
+  privateKey: { epk: JsonWebKey; iv: string; data: string }; // Base64, PKCS#8 sealed with the log key
+}
+
+export interface SigningKey {
+  privateKey: CryptoKey;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+}
+
+const readStoredKey = (): StoredSigningKey | null => {
+  const saved = localStorage.getItem(SIGNING_KEY_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse signing key", e);
+    return null;
+  }
+};
+
+/**
+ * SHA-256 over the key's required JWK members in lexical order (the RFC 7638
+ * thumbprint), shown so the key can be confirmed with the recipient out of band.
+ */
+export const keyFingerprint = async (publicKey: JsonWebKey): Promise<string> => {
+  const canonical = JSON.stringify({ crv: publicKey.crv, kty: publicKey.kty, x: publicKey.x, y: publicKey.y });
+  return sha256Hex(new TextEncoder().encode(canonical));
+};
+
+const createSigningKey = async (): Promise<SigningKey> => {
+  const logPublicKey = await getLogPublicKey();
+  if (!logPublicKey) throw new Error('No log key to protect the signing key');
+
+  const pair = await crypto.subtle.generateKey(SIGNING_KEY_ALGORITHM, true, ['sign', 'verify']);
+  const publicKey = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  const sealed = await sealBytes(logPublicKey, await crypto.subtle.exportKey('pkcs8', pair.privateKey));
+  const stored: StoredSigningKey = {
+    publicKey,
+    privateKey: { epk: sealed.epk, iv: bytesToBase64(sealed.iv), data: bytesToBase64(sealed.data) },
+  };
+  localStorage.setItem(SIGNING_KEY_STORAGE_KEY, JSON.stringify(stored));
+  return { privateKey: pair.privateKey, publicKey, fingerprint: await keyFingerprint(publicKey) };
+};
+
+/**
+ * Opens the device signing key with the log private key, creating it on first
+ * use. A key that can no longer be opened (the log key was replaced) is replaced too.
+ */
+export const unlockSigningKey = async (logKey: CryptoKey): Promise<SigningKey> => {
+  const stored = readStoredKey();
+  if (!stored) return createSigningKey();
+  try {
+    const pkcs8 = await openSealedBytes(logKey, {
+      epk: stored.privateKey.epk,
+      iv: base64ToBytes(stored.privateKey.iv),
+      data: base64ToBytes(stored.privateKey.data).buffer,
+    });
+    const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, SIGNING_KEY_ALGORITHM, false, ['sign']);
+    return { privateKey, publicKey: stored.publicKey, fingerprint: await keyFingerprint(stored.publicKey) };
+  } catch (e) {
+    console.error("Failed to open signing key, creating a new one", e);
+    return createSigningKey();
+  }
+};
+
+/**
+ * Signs with the device key. The signature is the raw r || s pair Web Crypto produces.
+ */
+export const signBytes = async (key: SigningKey, data: BufferSource): Promise<string> =>
+  bytesToBase64(await crypto.subtle.sign(SIGNATURE_ALGORITHM, key.privateKey, data));
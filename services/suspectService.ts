@@ -0,0 +1,159 @@
+import { Suspect, SuspectStatus } from '../types';
+import { SealedBox, openSealedJson, sealJson } from './cryptoService';
+import { STORES, idbGetAll, idbUpdate, runTransaction } from './idb';
+import { getLogPublicKey } from './logKeyService';
+
+// Hashes within this many differing bits (of 64) are treated as the same person. Kept
+// tight: a match on a known person suppresses the alert's urgency.
+const MATCH_DISTANCE = 6;
+// Exemplars kept per suspect, so matching tolerates changes in pose and lighting. Only
+// matches the user confirmed are added; automatic ones would let the cluster drift.
+const MAX_EXEMPLARS = 8;
+
+/**
+ * What is persisted for a suspect. Status and hashes stay in the clear because
+ * captures are matched while LOCKED (known people get low-priority alerts);
+ * the name is sealed to the log public key like the log details.
+ */
+interface StoredSuspect extends Omit<Suspect, 'name'> {
+  sealedName?: SealedBox;
+}
+
+/**
+ * 64-bit difference hash of an image: each bit records whether a pixel is
+ * brighter than its right-hand neighbour on a 9x8 grayscale thumbnail.
+ * Returned as 16 hex characters.
+ */
+export const perceptualHash = (source: HTMLCanvasElement): string => {
+  const sample = document.createElement('canvas');
+  sample.width = 9;
+  sample.height = 8;
+  const context = sample.getContext('2d', { willReadFrequently: true });
+  if (!context) return '';
+
+  context.drawImage(source, 0, 0, 9, 8);
+  const { data } = context.getImageData(0, 0, 9, 8);
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+};
+
+const distanceTo = (suspect: StoredSuspect, hash: string) =>
+  Math.min(...suspect.hashes.map(h => hammingDistance(h, hash)));
+
+/**
+ * "Suspect A", "Suspect B", ... "Suspect AA". Named suspects use their name.
+ */
+export const suspectLabel = (suspect: Suspect): string => {
+  if (suspect.name) return suspect.name;
+  let n = suspect.ordinal;
+  let letters = '';
+  do {
+    letters = String.fromCharCode(65 + (n % 26)) + letters;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `Suspect ${letters}`;
+};
+
+/**
+ * Finds the suspect a face hash belongs to, or creates a new one. Runs in a single
+ * transaction so overlapping captures cannot create duplicates. Works while LOCKED.
+ */
+export const assignSuspect = async (hash: string): Promise<Omit<Suspect, 'name'>> => {
+  let assigned: StoredSuspect | undefined;
+
+  await runTransaction([STORES.SUSPECTS], 'readwrite', tx => {
+    const store = tx.objectStore(STORES.SUSPECTS);
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const suspects = request.result as StoredSuspect[];
+      const match = suspects
+        .map(suspect => ({ suspect, distance: distanceTo(suspect, hash) }))
+        .filter(m => m.distance <= MATCH_DISTANCE)
+        .sort((a, b) => a.distance - b.distance)[0];
+
+      if (match) {
+        assigned = match.suspect;
+        return;
+      }
+
+      assigned = {
+        id: crypto.randomUUID(),
+        ordinal: suspects.reduce((max, s) => Math.max(max, s.ordinal + 1), 0),
+        status: 'active',
+        hashes: [hash],
+        createdAt: Date.now(),
+      };
+      store.put(assigned);
+    };
+  });
+
+  if (!assigned) throw new Error('Failed to assign suspect');
+  const { sealedName, ...suspect } = assigned;
+  return suspect;
+};
+
+export const listSuspects = async (privateKey: CryptoKey): Promise<Suspect[]> => {
+  const stored = await idbGetAll<StoredSuspect>(STORES.SUSPECTS);
+  const suspects = await Promise.all(
+    stored.map(async ({ sealedName, ...suspect }): Promise<Suspect> => ({
+      ...suspect,
+      name: sealedName ? await openSealedJson<string>(privateKey, sealedName) : undefined,
+    }))
+  );
+  return suspects.sort((a, b) => a.ordinal - b.ordinal);
+};
+
+export const setSuspectStatus = async (id: string, status: SuspectStatus): Promise<void> => {
+  await idbUpdate<StoredSuspect>(STORES.SUSPECTS, id, suspect => ({ ...suspect, status }));
+};
+
+/**
+ * Names a suspect, or clears the name when given an empty string.
+ */
+export const renameSuspect = async (id: string, name: string): Promise<void> => {
+  const publicKey = await getLogPublicKey();
+  if (!publicKey) throw new Error('Log key pair missing');
+  const sealedName = name ? await sealJson(publicKey, name) : undefined;
+  await idbUpdate<StoredSuspect>(STORES.SUSPECTS, id, suspect => ({ ...suspect, sealedName }));
+};
+
+/**
+ * Adds a capture's face hash to a suspect after the user confirmed the match.
+ * The first exemplar is always kept; beyond that the oldest ones make way.
+ */
+export const confirmSuspectMatch = async (id: string, hash: string): Promise<string[]> => {
+  let hashes: string[] = [];
+  await idbUpdate<StoredSuspect>(STORES.SUSPECTS, id, suspect => {
+    const [first, ...rest] = suspect.hashes;
+    hashes = suspect.hashes.includes(hash) ? suspect.hashes : [first, ...[...rest, hash].slice(-(MAX_EXEMPLARS - 1))];
+    return { ...suspect, hashes };
+  });
+  return hashes;
+};
@@ -0,0 +1,83 @@
+import { IncidentSummary, ThreatAnalysis, ThreatLevel } from '../types';
+
+export const THREAT_LEVEL_LABELS: Record<ThreatLevel, string> = {
+  1: 'Minimal',
+  2: 'Low',
+  3: 'Moderate',
+  4: 'High',
+  5: 'Severe',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Validates a model response against the ThreatAnalysis shape. Numbers are clamped
+ * into range rather than rejected, since models round loosely; missing or
+ * mistyped fields reject the whole response.
+ */
+export const parseThreatAnalysis = (value: unknown): ThreatAnalysis | null => {
+  if (!isRecord(value)) return null;
+
+  const age = value.ageRange;
+  if (!isRecord(age) || typeof age.min !== 'number' || typeof age.max !== 'number') return null;
+
+  const expression = nonEmptyString(value.expression);
+  const environment = nonEmptyString(value.environment);
+  if (!expression || !environment) return null;
+
+  if (!Array.isArray(value.distinctiveFeatures)) return null;
+  const distinctiveFeatures = value.distinctiveFeatures
+    .map(nonEmptyString)
+    .filter((feature): feature is string => feature !== null);
+
+  if (typeof value.threatLevel !== 'number' || typeof value.confidence !== 'number') return null;
+
+  const minAge = clamp(Math.round(age.min), 0, 120);
+  return {
+    ageRange: { min: minAge, max: clamp(Math.round(age.max), minAge, 120) },
+    expression,
+    environment,
+    distinctiveFeatures,
+    threatLevel: clamp(Math.round(value.threatLevel), 1, 5) as ThreatLevel,
+    confidence: clamp(value.confidence, 0, 1),
+    summary: nonEmptyString(value.summary) ?? undefined,
+  };
+};
+
+/**
+ * Validates the answer to a batched request: one analysis per photo, in order,
+ * either as a bare array or under "analyses". Any bad entry or a wrong count
+ * rejects the lot, since the analyses could no longer be matched to their photos.
+ */
+export const parseThreatAnalyses = (value: unknown, count: number): ThreatAnalysis[] | null => {
+  const list = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.analyses) ? value.analyses : null;
+  if (!list || list.length !== count) return null;
+  const analyses = list.map(parseThreatAnalysis);
+  return analyses.every((analysis): analysis is ThreatAnalysis => analysis !== null) ? analyses : null;
+};
+
+/**
+ * Validates a multi-image incident summary. createdAt and source are filled in by the caller.
+ */
+export const parseIncidentSummary = (value: unknown): Omit<IncidentSummary, 'createdAt' | 'source'> | null => {
+  if (!isRecord(value)) return null;
+  const narrative = nonEmptyString(value.narrative);
+  if (!narrative || typeof value.threatLevel !== 'number' || typeof value.distinctPeople !== 'number') return null;
+  return {
+    narrative,
+    threatLevel: clamp(Math.round(value.threatLevel), 1, 5) as ThreatLevel,
+    distinctPeople: Math.max(0, Math.round(value.distinctPeople)),
+  };
+};
+
+/**
+ * Analyses stored before structured output are plain strings.
+ */
+export const isStructuredAnalysis = (analysis: ThreatAnalysis | string): analysis is ThreatAnalysis =>
+  typeof analysis !== 'string';
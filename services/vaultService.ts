@@ -0,0 +1,175 @@
+import { VaultItem } from '../types';
+import {
+  EncryptedPayload,
+  WrappedKey,
+  decryptBytes,
+  decryptJson,
+  encryptBytes,
+  encryptJson,
+  generateDataKey,
+  unwrapDataKey,
+  wrapDataKey,
+} from './cryptoService';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut, runTransaction } from './idb';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, profileStorageKey } from './profileService';
+
+const vaultKeyStorageKey = (profileId?: string) => profileStorageKey('vault_key', profileId);
+
+// Both the metadata (file name, type, size) and the file content are encrypted,
+// so nothing about the documents is readable from IndexedDB without the key.
+interface StoredVaultItem {
+  id: string;
+  profileId?: string; // Owner; absent on items from before profiles, which belong to the default profile
+  meta: EncryptedPayload;
+  content: EncryptedPayload;
+}
+
+type VaultItemMeta = Omit<VaultItem, 'id'>;
+
+/**
+ * The document operations the vault view needs, bound to where the documents
+ * live. The real vault is encrypted in IndexedDB; the duress decoy is in memory.
+ */
+export interface VaultStore {
+  list: () => Promise<VaultItem[]>;
+  add: (file: File) => Promise<VaultItem>;
+  read: (item: VaultItem) => Promise<Blob>;
+  rename: (item: VaultItem, name: string) => Promise<VaultItem>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Stands in for the passcode-wrapped key while the passkey policy needs both
+// factors, so the missing key is not taken for an install from before the vault
+interface PasskeyRequiredMarker {
+  passkeyRequired: true;
+}
+
+const readWrappedKey = (): WrappedKey | PasskeyRequiredMarker | null => {
+  const saved = localStorage.getItem(vaultKeyStorageKey());
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to parse vault key", e);
+    return null;
+  }
+};
+
+/**
+ * Creates a new vault data key, wrapped by a key derived from the passcode.
+ * Replaces any existing key, so only call this when setting up a fresh vault.
+ */
+export const createVaultKey = async (passcode: string, profileId?: string): Promise<CryptoKey> => {
+  const dataKey = await generateDataKey();
+  await storeVaultKey(dataKey, passcode, profileId);
+  return dataKey;
+};
+
+/**
+ * Wraps an existing vault data key with a (new) passcode. Used when the passcode
+ * changes, so documents never need to be re-encrypted.
+ */
+export const storeVaultKey = async (dataKey: CryptoKey, passcode: string, profileId?: string): Promise<void> => {
+  localStorage.setItem(vaultKeyStorageKey(profileId), JSON.stringify(await wrapDataKey(dataKey, passcode)));
+};
+
+/**
+ * Unwraps the vault data key with the passcode. Installs that predate the
+ * document vault have no key yet, so one is created on first unlock.
+ */
+export const unlockVaultKey = async (passcode: string): Promise<CryptoKey> => {
+  const wrapped = readWrappedKey();
+  if (!wrapped) return createVaultKey(passcode);
+  if ('passkeyRequired' in wrapped) throw new Error('The vault key also needs the passkey.');
+  return unwrapDataKey(wrapped, passcode);
+};
+
+/**
+ * Drops the passcode-wrapped key once the passkey holds the only copy that
+ * opens with the passcode. The recovery code keeps its own copy.
+ */
+export const removeVaultKey = (): void => {
+  const marker: PasskeyRequiredMarker = { passkeyRequired: true };
+  localStorage.setItem(vaultKeyStorageKey(), JSON.stringify(marker));
+};
+
+const ownedBy = (record: StoredVaultItem, profileId: string) =>
+  (record.profileId ?? DEFAULT_PROFILE_ID) === profileId;
+
+export const listVaultItems = async (key: CryptoKey): Promise<VaultItem[]> => {
+  const profileId = getActiveProfileId();
+  const stored = (await idbGetAll<StoredVaultItem>(STORES.VAULT_ITEMS)).filter(record => ownedBy(record, profileId));
+  const items = await Promise.all(
+    stored.map(async (record) => ({
+      id: record.id,
+      ...(await decryptJson<VaultItemMeta>(key, record.meta)),
+    }))
+  );
+  return items.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const addVaultItem = async (key: CryptoKey, file: File): Promise<VaultItem> => {
+  const now = Date.now();
+  const item: VaultItem = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { id, ...meta } = item;
+
+  await idbPut<StoredVaultItem>(STORES.VAULT_ITEMS, {
+    id,
+    profileId: getActiveProfileId(),
+    meta: await encryptJson(key, meta),
+    content: await encryptBytes(key, await file.arrayBuffer()),
+  });
+  return item;
+};
+
+/**
+ * Decrypts a document's content into a Blob typed with its original MIME type.
+ */
+export const readVaultItemContent = async (key: CryptoKey, item: VaultItem): Promise<Blob> => {
+  const record = await idbGet<StoredVaultItem>(STORES.VAULT_ITEMS, item.id);
+  if (!record) throw new Error(`Vault item ${item.id} not found`);
+  const data = await decryptBytes(key, record.content);
+  return new Blob([data], { type: item.mimeType });
+};
+
+export const renameVaultItem = async (key: CryptoKey, item: VaultItem, name: string): Promise<VaultItem> => {
+  const record = await idbGet<StoredVaultItem>(STORES.VAULT_ITEMS, item.id);
+  if (!record) throw new Error(`Vault item ${item.id} not found`);
+
+  const updated: VaultItem = { ...item, name, updatedAt: Date.now() };
+  const { id, ...meta } = updated;
+  await idbPut<StoredVaultItem>(STORES.VAULT_ITEMS, { ...record, meta: await encryptJson(key, meta) });
+  return updated;
+};
+
+export const deleteVaultItem = (id: string): Promise<void> => idbDelete(STORES.VAULT_ITEMS, id);
+
+export const createVaultStore = (key: CryptoKey): VaultStore => ({
+  list: () => listVaultItems(key),
+  add: (file) => addVaultItem(key, file),
+  read: (item) => readVaultItemContent(key, item),
+  rename: (item, name) => renameVaultItem(key, item, name),
+  remove: deleteVaultItem,
+});
+
+/**
+ * Irreversibly deletes every document of a profile (the active one by default).
+ * The vault key itself is kept: the intruder log private key is encrypted with
+ * it, and that evidence has to survive a wipe.
+ */
+export const wipeVault = async (profileId: string = getActiveProfileId()): Promise<void> => {
+  const ids = (await idbGetAll<StoredVaultItem>(STORES.VAULT_ITEMS))
+    .filter(record => ownedBy(record, profileId))
+    .map(record => record.id);
+  await runTransaction([STORES.VAULT_ITEMS], 'readwrite', tx => {
+    const store = tx.objectStore(STORES.VAULT_ITEMS);
+    ids.forEach(id => store.delete(id));
+  });
+};
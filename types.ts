@@ -1,15 +1,231 @@
 export interface IntruderLog {
   id: string;
   timestamp: number;
-  imageData: string; // Base64
+  imageId: string; // Key of the primary still (the sharpest burst frame) in the log media store
+  bytes: number; // Total size of all stored media
   attemptNumber: number;
-  aiAnalysis?: string;
+  aiAnalysis?: ThreatAnalysis | string; // Plain strings are analyses from before structured output
+  delivery?: AlertDelivery[]; // One record per alert channel; absent for logs captured before tracking existed
+  media?: IntruderMedia[]; // Every still and clip captured; absent on single-photo logs from before burst capture
+  face?: FaceDetection; // The face found in the primary still, if any
+  faceCropId?: string; // Media key of the face crop taken from the primary still
+  faceHash?: string; // Perceptual hash of the face crop
+  suspectId?: string; // Suspect the face was matched to at capture time
+  duress?: boolean; // Captured when the duress passcode opened the decoy vault
+  profileId?: string; // Profile whose unlock was attempted; absent on logs from before profiles
+}
+
+// 'known' suspects (family, colleagues) are still logged and alerted on, at low priority
+export type SuspectStatus = 'active' | 'known' | 'dismissed';
+
+export interface Suspect {
+  id: string;
+  ordinal: number; // Creation order; gives unnamed suspects a stable letter
+  status: SuspectStatus;
+  name?: string;
+  hashes: string[]; // Perceptual hashes of face crops the user confirmed (the first is the one that created it)
+  createdAt: number;
+}
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceDetection {
+  box: BoundingBox; // In pixels of the primary still
+  confidence: number; // 0-1
+  method: 'native' | 'heuristic';
+}
+
+export type ThreatLevel = 1 | 2 | 3 | 4 | 5;
+
+export interface ThreatAnalysis {
+  ageRange: { min: number; max: number };
+  expression: string;
+  environment: string;
+  distinctiveFeatures: string[];
+  threatLevel: ThreatLevel;
+  confidence: number; // 0-1
+  summary?: string;
+  source?: AnalysisSource; // Absent on analyses from before providers were selectable
+}
+
+export type AnalysisProviderType = 'gemini' | 'openai' | 'offline';
+
+export interface AnalysisSource {
+  provider: AnalysisProviderType;
+  model: string;
+}
+
+/**
+ * Consecutive failed attempts from one session, derived from the logs rather than stored.
+ */
+export interface Incident {
+  id: string; // Id of the first log
+  logs: IntruderLog[]; // Oldest first
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface IncidentSummary {
+  narrative: string;
+  threatLevel: ThreatLevel;
+  distinctPeople: number;
+  source?: AnalysisSource;
+  createdAt: number;
+}
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderType;
+  model: string; // Empty means the provider's default model
+  prompt: string; // Empty means the default prompt
+  endpoint: string; // Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1
+  apiKey: string; // Sent as a Bearer token to the OpenAI-compatible API
+  autoAnalyze: boolean; // Queue every new capture for analysis
+  alertWaitsForAnalysis: boolean; // Hold the alert briefly so it can include the analysis
+}
+
+export type MediaKind = 'image' | 'video';
+
+export interface IntruderMedia {
+  id: string;
+  kind: MediaKind;
+  mimeType: string;
+  bytes: number;
+  capturedAt: number;
+  sharpness?: number; // Laplacian variance; higher is sharper
+}
+
+export type CaptureMode = 'single' | 'burst' | 'video';
+
+export type CaptureResolution = 'low' | 'medium' | 'high';
+
+export interface CaptureSettings {
+  mode: CaptureMode;
+  burstFrames: number;
+  burstDurationMs: number; // Frames are spread evenly over this window
+  clipSeconds: number;
+  requireFace: boolean; // Discard captures with no face in frame
+  deviceId: string; // '' = the front camera the browser picks
+  resolution: CaptureResolution;
+  jpegQuality: number; // 0-1, for stills and face crops
+}
+
+// Anything but 'active' while LOCKED means intruders are not being photographed
+export type CameraStatus = 'off' | 'starting' | 'active' | 'reconnecting' | 'denied' | 'unavailable';
+
+export type AlertDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface AlertDelivery {
+  channel: AlertChannelType;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  updatedAt: number;
+}
+
+export type AlertChannelType = 'webhook' | 'smtp' | 'notification';
+
+export interface WebhookChannelConfig {
+  enabled: boolean;
+  url: string;
+}
+
+export interface SmtpRelayChannelConfig {
+  enabled: boolean;
+  endpoint: string; // HTTP relay that turns the JSON payload into an email
+  apiKey: string;
+  from: string;
+}
+
+export interface NotificationChannelConfig {
+  enabled: boolean;
+}
+
+export interface AlertChannelSettings {
+  webhook: WebhookChannelConfig;
+  smtp: SmtpRelayChannelConfig;
+  notification: NotificationChannelConfig;
+}
+
+export interface SecurityAlert {
+  id: string;
+  logId?: string;
+  createdAt: number;
+  subject: string;
+  message: string;
+  attemptCount: number;
+  imageData?: string; // Base64 data URL
+  analysis?: ThreatAnalysis; // Only when the alert waited for automatic analysis
+  test?: boolean;
+  duress?: boolean; // Sent as high priority, and never as a notification on this device
+  knownSuspect?: boolean; // The face matched someone marked as known; sent as low priority
 }
 
 export interface AppSettings {
-  alertEmail: string;
+  alertEmail: string; // Recipient for the SMTP relay channel
   triggerThreshold: number;
   enableCapture: boolean;
+  capture: CaptureSettings;
+  lockoutThreshold: number; // Failures allowed before cooldowns start
+  lockoutDurations: number[]; // Escalating cooldowns in seconds; the last one repeats
+  wipeAfterFailures: number; // 0 disables wiping
+  alertChannels: AlertChannelSettings;
+  retention: RetentionPolicy;
+  analysis: AnalysisSettings;
+  autoLock: AutoLockPolicy;
+}
+
+export interface AutoLockPolicy {
+  idleMinutes: number; // 0 disables the inactivity timeout
+  warningSeconds: number; // Countdown shown before an inactivity lock
+  onHidden: boolean; // Tab switched away or window minimized
+  onBlur: boolean; // Window lost focus, including to file pickers and dialogs
+  onSleep: boolean; // Device resumed from sleep
+}
+
+export type AutoLockReason = 'idle' | 'hidden' | 'blur' | 'sleep';
+
+export interface RetentionPolicy {
+  maxCount: number; // 0 = unlimited
+  maxAgeDays: number; // 0 = unlimited
+  maxBytes: number; // 0 = unlimited
+}
+
+export interface StorageUsage {
+  logCount: number;
+  logBytes: number;
+  usage?: number; // Whole origin, from navigator.storage.estimate()
+  quota?: number;
+  persisted?: boolean; // Exempt from eviction under storage pressure
+}
+
+export interface LockoutState {
+  failedAttempts: number; // Consecutive failures since the last successful unlock
+  lockedUntil: number | null;
+  lastFailureAt: number | null;
+}
+
+export type PasscodeMode = 'pin' | 'passphrase';
+
+export type UnlockMethod = 'passcode' | 'passkey' | 'passcode+passkey';
+
+// Admins see every profile's intruder logs and the audit trail, and manage profiles
+export type ProfileRole = 'admin' | 'member';
+
+export interface Profile {
+  id: string;
+  name: string;
+  role: ProfileRole;
+  createdAt: number;
+}
+
+export interface PasscodePolicy {
+  mode: PasscodeMode;
+  length: number; // Exact digit count for PINs, minimum length for passphrases
 }
 
 export enum AppState {
@@ -24,3 +240,63 @@ export enum SecurityStatus {
   BREACH_DETECTED = 'BREACH_DETECTED',
   GRANTED = 'GRANTED'
 }
+
+export interface VaultItem {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes (plaintext)
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AuditEventType =
+  | 'setup'
+  | 'unlock'
+  | 'unlock_failed'
+  | 'lock'
+  | 'passcode_changed'
+  | 'passcode_recovered'
+  | 'recovery_failed'
+  | 'recovery_code_created'
+  | 'settings_changed'
+  | 'camera_denied'
+  | 'camera_lost'
+  | 'camera_restored'
+  | 'logs_deleted'
+  | 'logs_exported'
+  | 'vault_wiped'
+  | 'backup_created'
+  | 'backup_restored'
+  | 'passkey_enrolled'
+  | 'passkey_removed'
+  | 'passkey_policy_changed'
+  | 'duress_passcode_set'
+  | 'duress_passcode_removed'
+  | 'profile_created'
+  | 'profile_updated'
+  | 'profile_deleted';
+
+export type AuditDetails = Record<string, string | number | boolean | string[]>;
+
+export interface AuditEvent {
+  seq: number; // 1-based and contiguous; a missing number means a removed entry
+  timestamp: number;
+  type: AuditEventType;
+  details: AuditDetails;
+  hash: string; // Hex SHA-256 over this entry and the previous entry's hash
+}
+
+export type AuditIssueKind = 'gap' | 'edited' | 'broken_link' | 'truncated';
+
+export interface AuditIssue {
+  seq: number;
+  kind: AuditIssueKind;
+  message: string;
+}
+
+export interface AuditVerification {
+  checkedAt: number;
+  entries: number;
+  issues: AuditIssue[];
+}